@@ -1,3 +1,10 @@
+import util from "util";
+import { DecodeError, Decoder, failure, sum } from "./Decoder";
+import Either from "./Either";
+import { DefaultEq } from "./Eq";
+import Option, { None } from "./Option";
+import Try from "./Try";
+
 type Prettify<T> = {
   [K in keyof T]: T[K];
 } & {};
@@ -34,11 +41,479 @@ export function makeConstructors<ADT extends { _type: string }>() {
   }) as typeof constructors;
 }
 
+/**
+ * The values `match` accepts: sum types, and `Option`, `Either` and `Try`,
+ * which are matched as the sum types given by `Tagged`.
+ */
+export type Matchable =
+  | { readonly _type: string }
+  | Option<any>
+  | Either<any, any>
+  | Try<any, any>;
+
+/**
+ * The sum type a value is matched as: `Option`, `Either` and `Try` as their
+ * variants (`Some` and `None`, `Left` and `Right`, `Success` and `Failure`),
+ * and other values as themselves.
+ */
+export type Tagged<T> = T extends Option<infer A>
+  ? Sum<{ Some: { value: A }; None: {} }>
+  : T extends Either<infer L, infer R>
+  ? Sum<{ Left: { value: L }; Right: { value: R } }>
+  : T extends Try<infer A, infer E>
+  ? Sum<{ Success: { value: A }; Failure: { error: E } }>
+  : T;
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+/**
+ * A pattern of the values of a type: literal values for primitive fields,
+ * and patterns of the fields of objects, nested sum types included, or of the
+ * length and elements of arrays. Fields left out match anything.
+ *
+ * @example
+ * // A rectangle with a width of 0, whose owner is Some("root")
+ * { width: 0, owner: { _type: "Some", value: "root" } }
+ */
+export type Pattern<T> = Tagged<T> extends infer V
+  ? V extends Primitive
+    ? V
+    : V extends (...args: any[]) => any
+    ? never
+    : V extends readonly (infer E)[]
+    ? { readonly length?: number; readonly [index: number]: Pattern<E> }
+    : { readonly [K in keyof V]?: Pattern<V[K]> }
+  : never;
+
+/**
+ * A case of a variant, handling the values matching its pattern and guard.
+ * Built with `when` or `on`.
+ */
+export interface Case<V, R> {
+  readonly pattern?: Pattern<V>;
+  readonly guard?: (value: V) => boolean;
+  readonly then: (value: V) => R;
+}
+
+/**
+ * Handles the values satisfying a predicate over their fields.
+ *
+ * @example
+ * match(shape, {
+ *   Circle: [when(({ radius }) => radius === 0, () => "point"), () => "circle"],
+ *   Rectangle: () => "rectangle",
+ * });
+ */
+export function when<V, R>(
+  guard: (value: V) => boolean,
+  then: (value: V) => R
+): Case<V, R> {
+  return { guard, then };
+}
+
+/**
+ * Handles the values matching a pattern.
+ *
+ * @example
+ * match(shape, {
+ *   Rectangle: [on({ width: 0 }, () => "empty"), () => "rectangle"],
+ *   _: () => "other",
+ * });
+ */
+export function on<V, R>(
+  pattern: Pattern<V>,
+  then: (value: V) => R
+): Case<V, R> {
+  return { pattern, then };
+}
+
+type Variant<V, K> = Extract<V, { readonly _type: K }>;
+
+/**
+ * How a variant is handled: a function, or cases tried in order, the last of
+ * which may be a function handling the values no other case matched.
+ */
+export type Handler<V, R> =
+  | ((value: V) => R)
+  | readonly [...(Case<V, R> | ((value: V) => R))[], (value: V) => R]
+  | readonly (Case<V, R> | ((value: V) => R))[];
+
+/**
+ * The handlers of a sum type, by variant, and the `_` wildcard handling the
+ * values no handler matched.
+ */
+export type Handlers<V extends { readonly _type: string }, R = unknown> = {
+  readonly [K in V["_type"]]?: Handler<Variant<V, K>, R>;
+} & { readonly _?: (value: V) => R };
+
+type Missing<V extends { readonly _type: string }, H> = "_" extends keyof H
+  ? never
+  : Exclude<V["_type"], keyof H>;
+
+/**
+ * The variants whose cases may all fail to match, as they do not end with a
+ * function, when there is no wildcard.
+ */
+type Unhandled<H> = "_" extends keyof H
+  ? never
+  : {
+      [K in keyof H]: H[K] extends readonly [...any[], (value: any) => any]
+        ? never
+        : H[K] extends readonly any[]
+        ? K
+        : never;
+    }[keyof H];
+
+/**
+ * Makes the variants without handlers required, and the cases that may not
+ * match invalid, to report them by name.
+ */
+type Exhaustive<V extends { readonly _type: string }, H> = [
+  Missing<V, H> | Unhandled<H>
+] extends [never]
+  ? unknown
+  : {
+      readonly [K in Missing<V, H>]: `Missing handler for variant ${K}`;
+    } & {
+      readonly [K in Unhandled<H>]: `Missing final case for variant ${K &
+        string}`;
+    };
+
+type Result<H> = {
+  [K in keyof H]: H[K] extends (...args: any[]) => infer R
+    ? R
+    : H[K] extends readonly (infer C)[]
+    ? C extends Case<any, infer R>
+      ? R
+      : C extends (...args: any[]) => infer R
+      ? R
+      : never
+    : never;
+}[keyof H];
+
+function tag(value: Matchable): { readonly _type: string } {
+  if (value instanceof Option)
+    return value.match<{ readonly _type: string }>({
+      ifSome: (x) => ({ _type: "Some", value: x }),
+      ifNone: () => ({ _type: "None" }),
+    });
+  if (value instanceof Either)
+    return value.match<{ readonly _type: string }>({
+      ifLeft: (x) => ({ _type: "Left", value: x }),
+      ifRight: (x) => ({ _type: "Right", value: x }),
+    });
+  if (value instanceof Try)
+    return value.match<{ readonly _type: string }>({
+      ifSuccess: (x) => ({ _type: "Success", value: x }),
+      ifFailure: (error) => ({ _type: "Failure", error }),
+    });
+  return value;
+}
+
+/**
+ * Reads an own field of an object, ignoring the inherited ones such as
+ * `toString`.
+ */
+function ownField(object: object, key: string): unknown {
+  return Object.prototype.hasOwnProperty.call(object, key)
+    ? (object as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function matches(pattern: unknown, value: unknown): boolean {
+  if (typeof pattern !== "object" || pattern === null) return pattern === value;
+  if (typeof value !== "object" || value === null) return false;
+  const view = tag(value as Matchable);
+  return Object.keys(pattern).every((key) =>
+    matches(ownField(pattern, key), ownField(view, key))
+  );
+}
+
+function dispatch(value: Matchable, handlers: object): Option<unknown> {
+  const view = tag(value);
+  const handler = ownField(handlers, view._type) as
+    | Handler<typeof view, unknown>
+    | undefined;
+  const wildcard = ownField(handlers, "_") as
+    | ((value: typeof view) => unknown)
+    | undefined;
+  const cases = typeof handler === "function" ? [handler] : handler ?? [];
+  for (const c of cases) {
+    if (typeof c === "function") return Option.pure(c(view));
+    if (
+      (c.guard === undefined || c.guard(view)) &&
+      (c.pattern === undefined || matches(c.pattern, view))
+    )
+      return Option.pure(c.then(view));
+  }
+  return wildcard === undefined ? None.get() : Option.pure(wildcard(view));
+}
+
+/**
+ * Matches a value of a sum type, or an `Option`, `Either` or `Try`, against
+ * handlers by variant, with an optional `_` wildcard. A handler may be a
+ * list of cases built with `when` and `on`, tried in order.
+ *
+ * Every variant must have a handler, and its cases must end with a function,
+ * or the wildcard be given: the compiler reports the variants that may not be
+ * handled by name.
+ *
+ * @example
+ * match(shape, {
+ *   Circle: ({ radius }) => Math.PI * radius ** 2,
+ *   Rectangle: [
+ *     on({ width: 0 }, () => 0),
+ *     ({ width, height }) => width * height,
+ *   ],
+ * });
+ *
+ * match(option, { Some: ({ value }) => value, None: () => 0 });
+ */
 export function match<
-  ADT extends { _type: string },
-  Handlers extends {
-    [K in ADT["_type"]]: (v: Extract<ADT, { _type: K }>) => any;
+  T extends Matchable,
+  H extends Handlers<Tagged<T> & { readonly _type: string }>
+>(
+  value: T,
+  handlers: H & Exhaustive<Tagged<T> & { readonly _type: string }, H>
+): Result<H> {
+  return dispatch(value, handlers).getOrElseGet(() => {
+    throw new Error(`No case matched the variant ${tag(value)._type}`);
+  }) as Result<H>;
+}
+
+/**
+ * Matches a value like `match`, but without requiring a handler for every
+ * variant.
+ *
+ * @returns The result of the matching case, or `None` if no case matched.
+ */
+export function matchPartial<
+  T extends Matchable,
+  H extends Handlers<Tagged<T> & { readonly _type: string }>
+>(value: T, handlers: H): Option<Result<H>> {
+  return dispatch(value, handlers) as Option<Result<H>>;
+}
+
+/**
+ * The constructors of a sum type, one per variant, and utilities derived from
+ * its variants. Built by `defineADT`.
+ *
+ * @template T - The sum type.
+ */
+export type Definition<T extends { readonly _type: string }> = {
+  readonly [K in T["_type"]]: (
+    fields: Omit<Variant<T, K>, "_type">
+  ) => Variant<T, K>;
+} & {
+  /**
+   * The names of the variants.
+   */
+  readonly variants: readonly T["_type"][];
+  /**
+   * Type guards of the variants, e.g. `Shape.is.Circle(value)`.
+   */
+  readonly is: {
+    readonly [K in T["_type"]]: (value: unknown) => value is Variant<T, K>;
+  };
+  /**
+   * Folds a value with one function per variant.
+   */
+  fold<R>(handlers: {
+    readonly [K in T["_type"]]: (value: Variant<T, K>) => R;
+  }): (value: T) => R;
+  /**
+   * Compares values field by field, deeply, comparing the data types such as
+   * `Option` with their own `equals`.
+   */
+  equals(x: T, y: T): boolean;
+  /**
+   * Formats a value, such as `Rectangle(width: 2, height: 3)`.
+   */
+  show(value: T): string;
+  /**
+   * Writes a value as JSON text.
+   */
+  encode(value: T): string;
+};
+
+/**
+ * The decoders of the fields of each variant of a sum type.
+ */
+export type FieldDecoders<T extends { readonly _type: string }> = {
+  readonly [K in T["_type"]]: {
+    readonly [P in Exclude<keyof Variant<T, K>, "_type">]: Decoder<
+      Variant<T, K>[P]
+    >;
+  };
+};
+
+/**
+ * The `Definition` of a sum type defined with the decoders of its fields,
+ * which can also read its values.
+ */
+export type DecodableDefinition<T extends { readonly _type: string }> =
+  Definition<T> & {
+    /**
+     * Reads a value from JSON text, checking that it is an object whose
+     * `_type` is one of the variants, and decoding its fields.
+     */
+    decode(json: string): Either<DecodeError, T>;
+    /**
+     * Decodes a value from parsed JSON, with the same checks as `decode`.
+     */
+    readonly decoder: Decoder<T>;
+  };
+
+const reserved = [
+  "variants",
+  "is",
+  "fold",
+  "equals",
+  "show",
+  "encode",
+  "decode",
+  "decoder",
+];
+
+function isTagged(value: unknown): value is { readonly _type: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { _type: unknown })._type === "string"
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function deepEquals(x: unknown, y: unknown): boolean {
+  if (Array.isArray(x))
+    return (
+      Array.isArray(y) &&
+      x.length === y.length &&
+      x.every((value, i) => deepEquals(value, y[i]))
+    );
+  if (isPlainObject(x) && isPlainObject(y)) {
+    const keys = Object.keys(x);
+    return (
+      keys.length === Object.keys(y).length &&
+      keys.every((key) => key in y && deepEquals(x[key], y[key]))
+    );
+  }
+  return DefaultEq.equals(x, y);
+}
+
+function showValue(value: unknown): string {
+  if (isTagged(value)) {
+    const keys = Object.keys(value).filter((key) => key !== "_type");
+    if (keys.length === 0) return value._type;
+    const fields = keys.map(
+      (key) => `${key}: ${showValue((value as Record<string, unknown>)[key])}`
+    );
+    return `${value._type}(${fields.join(", ")})`;
+  }
+  if (Array.isArray(value)) return `[${value.map(showValue).join(", ")}]`;
+  return util.inspect(value);
+}
+
+/**
+ * Defines a sum type declared with `Sum`, from the names of its variants,
+ * which the compiler checks against the declaration. Unlike
+ * `makeConstructors`, only the given variants can be built.
+ *
+ * Given the decoders of the fields of each variant instead, the definition
+ * can also decode values, like `sum` from Decoder.ts.
+ *
+ * @returns A function taking the names of all the variants, or the decoders
+ * of their fields, and returning the `Definition` of the sum type.
+ *
+ * @example
+ * type Shape = Sum<{
+ *   Circle: { radius: number };
+ *   Rectangle: { width: number; height: number };
+ * }>;
+ * const Shape = defineADT<Shape>()("Circle", "Rectangle");
+ *
+ * const area = Shape.fold({
+ *   Circle: ({ radius }) => Math.PI * radius ** 2,
+ *   Rectangle: ({ width, height }) => width * height,
+ * });
+ * area(Shape.Circle({ radius: 1 }));
+ *
+ * const Codec = defineADT<Shape>()({
+ *   Circle: { radius: number },
+ *   Rectangle: { width: number, height: number },
+ * });
+ * Codec.decode('{"_type":"Circle","radius":1}'); // Right(Circle(radius: 1))
+ */
+export function defineADT<T extends { readonly _type: string }>() {
+  function define<const N extends readonly T["_type"][]>(
+    ...variants: N &
+      ([Exclude<T["_type"], N[number]>] extends [never]
+        ? unknown
+        : readonly `Missing variant ${Exclude<T["_type"], N[number]>}`[])
+  ): Definition<T>;
+  function define(fields: FieldDecoders<T>): DecodableDefinition<T>;
+  function define(
+    ...args: readonly (
+      | string
+      | Record<string, Record<string, Decoder<unknown>>>
+    )[]
+  ): Definition<T> | DecodableDefinition<T> {
+    const fields = typeof args[0] === "object" ? args[0] : undefined;
+    const names =
+      fields === undefined ? (args as string[]) : Object.keys(fields);
+    for (const [index, name] of names.entries()) {
+      if (reserved.indexOf(name) !== -1)
+        throw new Error(`Variant name ${name} is reserved`);
+      if (names.indexOf(name) !== index)
+        throw new Error(`Variant ${name} is defined twice`);
+    }
+
+    const check = (value: T): T => {
+      if (!isTagged(value) || names.indexOf(value._type) === -1)
+        throw new Error(`Unknown variant of ${showValue(value)}`);
+      return value;
+    };
+
+    const constructors: Record<string, (fields: object) => T> = {};
+    const is: Record<string, (value: unknown) => boolean> = {};
+    for (const name of names) {
+      constructors[name] = (fields) => ({ ...fields, _type: name } as T);
+      is[name] = (value) => isTagged(value) && value._type === name;
+    }
+    const definition = {
+      ...constructors,
+      variants: names,
+      is,
+      fold: (handlers: Record<string, (value: T) => unknown>) => (value: T) =>
+        handlers[check(value)._type](value),
+      equals: (x: T, y: T) =>
+        check(x)._type === check(y)._type && deepEquals(x, y),
+      show: (value: T) => showValue(check(value)),
+      encode: (value: T) => JSON.stringify(check(value)),
+    } as unknown as Definition<T>;
+    if (fields === undefined) return definition;
+
+    const decoder = sum(fields) as Decoder<T>;
+    return {
+      ...definition,
+      decode: (json: string) => {
+        let input: unknown;
+        try {
+          input = JSON.parse(json);
+        } catch (error) {
+          return failure<T>(`expected JSON, got ${(error as Error).message}`);
+        }
+        return decoder(input);
+      },
+      decoder,
+    };
   }
->(value: ADT, handlers: Handlers): ReturnType<Handlers[ADT["_type"]]> {
-  return handlers[value._type as ADT["_type"]](value as any);
+  return define;
 }
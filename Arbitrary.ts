@@ -0,0 +1,554 @@
+import util from "util";
+import Either from "./Either";
+import { combineHash, hash } from "./Hash";
+import IO from "./IO";
+import List from "./List";
+import Monoid from "./Monoid";
+import Option, { None, isSome } from "./Option";
+import Try, { Failure, Success } from "./Try";
+import Writer from "./Writer";
+
+/**
+ * A seedable pseudo-random number generator (mulberry32), so that a failing
+ * property can be replayed from the seed in its error.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * @returns A number between 0 included and 1 excluded.
+   */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * @returns An integer between `min` and `max`, both included.
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+}
+
+/**
+ * A generated value, with the smaller values to try in its place when it
+ * falsifies a property, the most promising first.
+ */
+export interface Shrinkable<A> {
+  readonly value: A;
+  shrinks(): Iterable<Shrinkable<A>>;
+}
+
+function shrinkable<A>(
+  value: A,
+  shrinks: () => Iterable<Shrinkable<A>> = () => [],
+): Shrinkable<A> {
+  return { value, shrinks };
+}
+
+function mapShrinkable<A, B>(
+  source: Shrinkable<A>,
+  func: (value: A) => B,
+): Shrinkable<B> {
+  return {
+    value: func(source.value),
+    *shrinks() {
+      for (const shrunk of source.shrinks()) yield mapShrinkable(shrunk, func);
+    },
+  };
+}
+
+function bindShrinkable<A, B>(
+  source: Shrinkable<A>,
+  func: (value: A) => Shrinkable<B>,
+): Shrinkable<B> {
+  const result = func(source.value);
+  return {
+    value: result.value,
+    *shrinks() {
+      for (const shrunk of source.shrinks()) yield bindShrinkable(shrunk, func);
+      yield* result.shrinks();
+    },
+  };
+}
+
+function filterShrinkable<A>(
+  source: Shrinkable<A>,
+  predicate: (value: A) => boolean,
+): Shrinkable<A> {
+  return {
+    value: source.value,
+    *shrinks() {
+      for (const shrunk of source.shrinks())
+        if (predicate(shrunk.value)) yield filterShrinkable(shrunk, predicate);
+    },
+  };
+}
+
+/**
+ * Generates random values of a type for property-based tests, along with the
+ * ways to shrink them.
+ *
+ * Shrinking is integrated: values built with `map`, `bind` or `filter` shrink
+ * through the values they were built from, so that the counterexample of a
+ * failing property is as small as possible.
+ *
+ * @template A - Type of the generated values.
+ */
+export default class Arbitrary<A> {
+  private constructor(
+    private readonly run: (random: Random, size: number) => Shrinkable<A>,
+  ) {}
+
+  /**
+   * Generates a value.
+   * @param random Source of randomness.
+   * @param size Bound on the size of the value, such as the length of arrays.
+   */
+  generate(random: Random, size: number): Shrinkable<A> {
+    return this.run(random, size);
+  }
+
+  map<B>(func: (value: A) => B): Arbitrary<B> {
+    return new Arbitrary((random, size) =>
+      mapShrinkable(this.run(random, size), func),
+    );
+  }
+
+  /**
+   * Generates a value, then another one from an arbitrary depending on it.
+   * The first value is shrunk before the second one.
+   */
+  bind<B>(func: (value: A) => Arbitrary<B>): Arbitrary<B> {
+    return new Arbitrary((random, size) => {
+      // Seed the dependent generation, so that it can be replayed while the
+      // first value shrinks
+      const seed = random.int(0, 0xffffffff);
+      return bindShrinkable(this.run(random, size), (value) =>
+        func(value).run(new Random(seed), size),
+      );
+    });
+  }
+
+  /**
+   * Keeps only the values satisfying a predicate, retrying the generation.
+   * @param predicate Condition on the values, which should hold often.
+   * @param maxTries Number of generations before giving up.
+   */
+  filter(predicate: (value: A) => boolean, maxTries = 100): Arbitrary<A> {
+    return new Arbitrary((random, size) => {
+      for (let i = 0; i < maxTries; i++) {
+        const candidate = this.run(random, size);
+        if (predicate(candidate.value))
+          return filterShrinkable(candidate, predicate);
+      }
+      throw new Error(`No value satisfied the filter in ${maxTries} tries`);
+    });
+  }
+
+  /**
+   * Generates values with growing sizes, e.g. to look at what an arbitrary produces.
+   * @param count Number of values.
+   * @param seed Seed of the generation.
+   */
+  sample(count: number, seed = 0): A[] {
+    const random = new Random(seed);
+    return Array.from({ length: count }, (_, i) => this.run(random, i).value);
+  }
+
+  /**
+   * Builds an arbitrary from a generating function and a shrinking function.
+   * @param generate Generates a value of at most a size.
+   * @param shrink Smaller values to try in place of a value, none by default.
+   */
+  static from<A>(
+    generate: (random: Random, size: number) => A,
+    shrink: (value: A) => Iterable<A> = () => [],
+  ): Arbitrary<A> {
+    const build = (value: A): Shrinkable<A> =>
+      shrinkable(value, function* () {
+        for (const shrunk of shrink(value)) yield build(shrunk);
+      });
+    return new Arbitrary((random, size) => build(generate(random, size)));
+  }
+
+  /**
+   * Builds an arbitrary generating values along with their shrinks.
+   */
+  static fromShrinkable<A>(
+    generate: (random: Random, size: number) => Shrinkable<A>,
+  ): Arbitrary<A> {
+    return new Arbitrary(generate);
+  }
+
+  /**
+   * Builds an arbitrary depending on the current size, e.g. a number of steps.
+   */
+  static sized<A>(func: (size: number) => Arbitrary<A>): Arbitrary<A> {
+    return new Arbitrary((random, size) => func(size).run(random, size));
+  }
+}
+
+function* shrinkInteger(value: number, target: number): Iterable<number> {
+  let distance = value - target;
+  while (distance !== 0) {
+    yield value - distance;
+    distance = Math.trunc(distance / 2);
+  }
+}
+
+/**
+ * Integers between `min` and `max`, shrinking towards 0, or the bound closest to it.
+ */
+export function integer(min = -1000, max = 1000): Arbitrary<number> {
+  const target = Math.min(Math.max(0, min), max);
+  return Arbitrary.from(
+    (random) => random.int(min, max),
+    (value) => shrinkInteger(value, target),
+  );
+}
+
+/**
+ * Integers between 0 and the current size.
+ */
+export const nat: Arbitrary<number> = Arbitrary.sized((size) =>
+  integer(0, size),
+);
+
+/**
+ * Numbers between `min` and `max`, shrinking to integers, then towards 0.
+ */
+export function float(min = -1000, max = 1000): Arbitrary<number> {
+  const target = Math.min(Math.max(0, min), max);
+  return Arbitrary.from(
+    (random) => min + random.next() * (max - min),
+    (value) =>
+      Number.isInteger(value)
+        ? shrinkInteger(value, target)
+        : [Math.min(Math.max(Math.trunc(value), min), max)],
+  );
+}
+
+export const boolean: Arbitrary<boolean> = Arbitrary.from(
+  (random) => random.next() < 0.5,
+  (value) => (value ? [false] : []),
+);
+
+/**
+ * Always generates the same value.
+ */
+export function constant<A>(value: A): Arbitrary<A> {
+  return Arbitrary.from(() => value);
+}
+
+/**
+ * One of the given values, shrinking towards the first one.
+ */
+export function elements<A>(...values: A[]): Arbitrary<A> {
+  return integer(0, values.length - 1).map((index) => values[index]);
+}
+
+/**
+ * A value from one of the given arbitraries, shrinking towards the first one.
+ */
+export function oneOf<A>(...arbitraries: Arbitrary<A>[]): Arbitrary<A> {
+  return integer(0, arbitraries.length - 1).bind((index) => arbitraries[index]);
+}
+
+function* shrinkArray<A>(
+  items: Shrinkable<A>[],
+  minLength: number,
+): Iterable<Shrinkable<A[]>> {
+  // Remove chunks of elements, from the largest to single elements
+  for (let chunk = items.length - minLength; chunk > 0; chunk >>= 1)
+    for (let start = 0; start + chunk <= items.length; start += chunk)
+      yield shrinkableArray(
+        [...items.slice(0, start), ...items.slice(start + chunk)],
+        minLength,
+      );
+  // Then shrink the elements one at a time
+  for (let i = 0; i < items.length; i++)
+    for (const shrunk of items[i].shrinks())
+      yield shrinkableArray(
+        [...items.slice(0, i), shrunk, ...items.slice(i + 1)],
+        minLength,
+      );
+}
+
+function shrinkableArray<A>(
+  items: Shrinkable<A>[],
+  minLength: number,
+): Shrinkable<A[]> {
+  return shrinkable(
+    items.map((item) => item.value),
+    () => shrinkArray(items, minLength),
+  );
+}
+
+/**
+ * Arrays of at most the current size, shrinking by removing elements, then
+ * by shrinking them.
+ * @param element Arbitrary of the elements.
+ * @param minLength Least length of the arrays.
+ * @param maxLength Greatest length of the arrays.
+ */
+export function array<A>(
+  element: Arbitrary<A>,
+  minLength = 0,
+  maxLength = Infinity,
+): Arbitrary<A[]> {
+  return Arbitrary.fromShrinkable((random, size) => {
+    const length = random.int(
+      minLength,
+      Math.max(minLength, Math.min(size, maxLength)),
+    );
+    const items = Array.from({ length }, () => element.generate(random, size));
+    return shrinkableArray(items, minLength);
+  });
+}
+
+const alphabet =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 !\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~";
+
+/**
+ * Printable ASCII characters, shrinking towards `a`.
+ */
+export const char: Arbitrary<string> = integer(0, alphabet.length - 1).map(
+  (index) => alphabet[index],
+);
+
+/**
+ * Strings of printable ASCII characters, of at most the current length.
+ */
+export const string: Arbitrary<string> = array(char).map((chars) =>
+  chars.join(""),
+);
+
+/**
+ * Tuples with one arbitrary per position, shrinking one position at a time.
+ *
+ * @example
+ * tuple(integer(), string); // Arbitrary<[number, string]>
+ */
+export function tuple<T extends unknown[]>(
+  ...arbitraries: { [K in keyof T]: Arbitrary<T[K]> }
+): Arbitrary<T> {
+  return Arbitrary.fromShrinkable((random, size) => {
+    const items = arbitraries.map((arbitrary: Arbitrary<unknown>) =>
+      arbitrary.generate(random, size),
+    );
+    return shrinkableArray(items, items.length) as Shrinkable<T>;
+  });
+}
+
+/**
+ * Pure functions returning values of an arbitrary. Each function is
+ * deterministic: arguments with the same `hash` from Hash.ts give the same
+ * result. Functions do not shrink.
+ * @param result Arbitrary of the results.
+ */
+export function func<A, B>(result: Arbitrary<B>): Arbitrary<(value: A) => B> {
+  return Arbitrary.fromShrinkable((random, size) => {
+    const seed = random.int(0, 0xffffffff);
+    return shrinkable(
+      (value: A) =>
+        result.generate(new Random(combineHash(seed, hash(value))), size).value,
+    );
+  });
+}
+
+/**
+ * Options holding values of an arbitrary, shrinking towards `None`.
+ */
+export function optionOf<A>(value: Arbitrary<A>): Arbitrary<Option<A>> {
+  return oneOf(
+    constant(None.get<A>()),
+    value.map((x) => Option.pure(x)),
+  );
+}
+
+/**
+ * Eithers holding values of one of two arbitraries, shrinking towards `Left`.
+ */
+export function eitherOf<L, R>(
+  left: Arbitrary<L>,
+  right: Arbitrary<R>,
+): Arbitrary<Either<L, R>> {
+  return oneOf(
+    left.map((x) => Either.asLeft<L, R>(x)),
+    right.map((x) => Either.asRight<L, R>(x)),
+  );
+}
+
+/**
+ * Tries holding values of an arbitrary, shrinking towards `Failure`.
+ * @param value Arbitrary of the values of `Success`.
+ * @param error Arbitrary of the errors of `Failure`, `Error`s by default.
+ */
+export function tryOf<A>(value: Arbitrary<A>): Arbitrary<Try<A, Error>>;
+export function tryOf<A, E>(
+  value: Arbitrary<A>,
+  error: Arbitrary<E>,
+): Arbitrary<Try<A, E>>;
+export function tryOf<A>(
+  value: Arbitrary<A>,
+  error: Arbitrary<unknown> = string.map((message) => new Error(message)),
+): Arbitrary<Try<A, unknown>> {
+  return oneOf<Try<A, unknown>>(
+    error.map((x) => new Failure(x)),
+    value.map((x) => new Success(x)),
+  );
+}
+
+/**
+ * Lists of at most the current size.
+ */
+export function listOf<A>(value: Arbitrary<A>): Arbitrary<List<A>> {
+  return array(value).map((values) => List.fromIterable(values));
+}
+
+/**
+ * Writers holding values of an arbitrary, with a log of another one.
+ * @param monoid Monoid of the logs.
+ * @param log Arbitrary of the logs.
+ * @param value Arbitrary of the values.
+ */
+export function writerOf<W, A>(
+  monoid: Monoid<W>,
+  log: Arbitrary<W>,
+  value: Arbitrary<A>,
+): Arbitrary<Writer<W, A>> {
+  return tuple(value, log).map(([x, w]) => Writer.of(x, monoid).tell(w));
+}
+
+/**
+ * IOs producing values of an arbitrary.
+ */
+export function ioOf<A>(value: Arbitrary<A>): Arbitrary<IO<A>> {
+  return value.map((x) => IO.of(x));
+}
+
+export interface CheckOptions {
+  /**
+   * Seed of the generation, random by default. The seed of a failing
+   * property is in its error, to replay it.
+   */
+  readonly seed?: number;
+  /**
+   * Number of values to try, 100 by default.
+   */
+  readonly runs?: number;
+  /**
+   * Greatest size of the values, 50 by default. The size grows with each run.
+   */
+  readonly maxSize?: number;
+  /**
+   * Greatest number of shrinking steps, 1000 by default.
+   */
+  readonly maxShrinks?: number;
+  /**
+   * Name of the property, for the error message.
+   */
+  readonly label?: string;
+}
+
+/**
+ * The error of a property falsified by a value.
+ */
+export class PropertyError<A = unknown> extends Error {
+  constructor(
+    readonly counterexample: A,
+    readonly seed: number,
+    readonly runs: number,
+    readonly shrinks: number,
+    readonly error: unknown,
+    label = "Property",
+  ) {
+    super(
+      `${label} failed after ${runs} run(s) and ${shrinks} shrink(s) ` +
+        `(seed: ${seed})\nCounterexample: ${util.inspect(counterexample, { depth: 5 })}` +
+        (error === undefined
+          ? ""
+          : `\n${error instanceof Error ? error.message : util.inspect(error)}`),
+    );
+    this.name = "PropertyError";
+  }
+}
+
+/**
+ * Runs a property, returning what falsified it: the error thrown, or
+ * `undefined` if it returned `false`.
+ */
+function falsify<A>(
+  property: (value: A) => boolean | void,
+  value: A,
+): Option<unknown> {
+  try {
+    return property(value) === false ? Option.pure(undefined) : None.get();
+  } catch (error) {
+    return Option.pure(error);
+  }
+}
+
+/**
+ * Checks that a property holds for generated values. A property holds if it
+ * does not return `false` nor throw, so it may use `expect`.
+ *
+ * When a value falsifies it, the value is shrunk to the smallest one still
+ * falsifying it, and a `PropertyError` is thrown.
+ *
+ * @param arbitrary Arbitrary of the values.
+ * @param property Property of the values.
+ * @param options Seed, number of runs and sizes.
+ *
+ * @example
+ * check(tuple(string, string), ([x, y]) => (x + y).length >= x.length);
+ */
+export function check<A>(
+  arbitrary: Arbitrary<A>,
+  property: (value: A) => boolean | void,
+  options: CheckOptions = {},
+): void {
+  const {
+    seed = Math.floor(Math.random() * 0x100000000),
+    runs = 100,
+    maxSize = 50,
+    maxShrinks = 1000,
+    label,
+  } = options;
+  const random = new Random(seed);
+  for (let run = 0; run < runs; run++) {
+    let candidate = arbitrary.generate(random, Math.min(run, maxSize));
+    let failure = falsify(property, candidate.value);
+    if (!isSome(failure)) continue;
+
+    let shrinks = 0;
+    shrinking: while (shrinks < maxShrinks) {
+      for (const shrunk of candidate.shrinks()) {
+        const shrunkFailure = falsify(property, shrunk.value);
+        if (isSome(shrunkFailure)) {
+          candidate = shrunk;
+          failure = shrunkFailure;
+          shrinks++;
+          continue shrinking;
+        }
+      }
+      break;
+    }
+    throw new PropertyError(
+      candidate.value,
+      seed,
+      run + 1,
+      shrinks,
+      failure.orUndefined(),
+      label,
+    );
+  }
+}
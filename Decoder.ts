@@ -0,0 +1,395 @@
+import { Sum } from "./ADTs";
+import Either, { isRight } from "./Either";
+import Option, { None } from "./Option";
+
+/**
+ * The location of a value inside a decoded input: object keys and array indices.
+ */
+export type Path = readonly (string | number)[];
+
+/**
+ * A single reason why an input could not be decoded, and where.
+ */
+export interface DecodeIssue {
+  readonly path: Path;
+  readonly message: string;
+}
+
+/**
+ * The result of a failed decoding, with every issue found.
+ */
+export interface DecodeError {
+  readonly issues: readonly DecodeIssue[];
+}
+
+/**
+ * Checks that an unknown input, such as parsed JSON, has the type `A`.
+ *
+ * Decoders are plain functions returning an `Either`, built from primitive
+ * decoders (`string`, `number`, ...) and combinators (`array`, `struct`,
+ * `union`, ...). The type of the decoded values is inferred from the
+ * combinators, and can be named with `TypeOf`. Composite decoders keep going
+ * after an invalid part, so a `DecodeError` reports every issue found, each
+ * with the path where it was found.
+ *
+ * @template A - Type of the decoded value.
+ */
+export type Decoder<A> = (input: unknown) => Either<DecodeError, A>;
+
+/**
+ * The type of the values produced by a decoder.
+ *
+ * @template D - Type of the decoder.
+ */
+export type TypeOf<D> = D extends Decoder<infer A> ? A : never;
+
+/**
+ * Builds a failed decoding with a single issue.
+ *
+ * @param message Description of what was expected.
+ * @param path Location of the issue, the root by default.
+ */
+export function failure<A>(
+  message: string,
+  path: Path = [],
+): Either<DecodeError, A> {
+  return Either.asLeft({ issues: [{ path, message }] });
+}
+
+/**
+ * Prefixes the paths of all issues with a key, to locate them in the parent value.
+ *
+ * @param key Key or index of the value inside its parent.
+ * @param result Result of decoding the value.
+ */
+export function at<A>(
+  key: string | number,
+  result: Either<DecodeError, A>,
+): Either<DecodeError, A> {
+  return result.mapLeft((error) => ({
+    issues: error.issues.map((issue) => ({
+      path: [key, ...issue.path],
+      message: issue.message,
+    })),
+  }));
+}
+
+/**
+ * Formats the issues of an error, one per line, such as `value.0: expected a number`.
+ */
+export function formatDecodeError(error: DecodeError): string {
+  return error.issues
+    .map(
+      (issue) =>
+        `${issue.path.length > 0 ? issue.path.join(".") : "<root>"}: ${issue.message}`,
+    )
+    .join("\n");
+}
+
+function isRecord(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+function describe(input: unknown): string {
+  if (input === null) return "null";
+  if (Array.isArray(input)) return "an array";
+  return typeof input === "object" ? "an object" : JSON.stringify(input);
+}
+
+function primitive<A>(
+  name: string,
+  check: (input: unknown) => boolean,
+): Decoder<A> {
+  return (input) =>
+    check(input)
+      ? Either.asRight(input as A)
+      : failure(`expected ${name}, got ${describe(input)}`);
+}
+
+export const string: Decoder<string> = primitive(
+  "a string",
+  (input) => typeof input === "string",
+);
+
+export const number: Decoder<number> = primitive(
+  "a number",
+  (input) => typeof input === "number",
+);
+
+export const boolean: Decoder<boolean> = primitive(
+  "a boolean",
+  (input) => typeof input === "boolean",
+);
+
+export const unknown: Decoder<unknown> = (input) => Either.asRight(input);
+
+/**
+ * Decodes an `Error` written as `{ name, message }`, which is how `Try`
+ * writes `Error` failures to JSON.
+ */
+export const error: Decoder<Error> = (input) => {
+  if (!isRecord(input))
+    return failure(`expected an error, got ${describe(input)}`);
+  return field(input, "name", string).bind((name) =>
+    field(input, "message", string).map((message) => {
+      const result = new Error(message);
+      result.name = name;
+      return result;
+    }),
+  );
+};
+
+/**
+ * Combines the results of decoding the parts of a value, locating each part
+ * under its key, and reporting the issues of all invalid parts.
+ */
+function collect(
+  results: [string | number, Either<DecodeError, unknown>][],
+): Either<DecodeError, unknown[]> {
+  const values: unknown[] = [];
+  const issues: DecodeIssue[] = [];
+  for (const [key, result] of results)
+    at(key, result).match({
+      ifLeft: (error) => issues.push(...error.issues),
+      ifRight: (value) => values.push(value),
+    });
+  return issues.length > 0 ? Either.asLeft({ issues }) : Either.asRight(values);
+}
+
+/**
+ * Builds a decoder of arrays, decoding every element and reporting the issues
+ * of all invalid elements.
+ *
+ * @param decoder Decoder of the elements.
+ */
+export function array<A>(decoder: Decoder<A>): Decoder<A[]> {
+  return (input) => {
+    if (!Array.isArray(input))
+      return failure(`expected an array, got ${describe(input)}`);
+    return collect(
+      input.map((element, index) => [index, decoder(element)]),
+    ) as Either<DecodeError, A[]>;
+  };
+}
+
+/**
+ * Builds a decoder of objects used as dictionaries, decoding every value and
+ * reporting the issues of all invalid values.
+ *
+ * @param decoder Decoder of the values.
+ */
+export function record<A>(decoder: Decoder<A>): Decoder<Record<string, A>> {
+  return (input) => {
+    if (!isRecord(input))
+      return failure(`expected an object, got ${describe(input)}`);
+    const keys = Object.keys(input);
+    return collect(keys.map((key) => [key, decoder(input[key])])).map(
+      (values) => defineFields<Record<string, A>>({}, keys, values),
+    );
+  };
+}
+
+/**
+ * Builds a decoder of objects with known fields, each with its own decoder,
+ * reporting the issues of all invalid fields. Other fields are dropped.
+ *
+ * @param fields Decoder of each field.
+ *
+ * @example
+ * const user = struct({ name: string, age: number, email: optional(string) });
+ * type User = TypeOf<typeof user>; // { name: string; age: number; email: Option<string> }
+ */
+export function struct<F extends Record<string, Decoder<any>>>(
+  fields: F,
+): Decoder<{ [K in keyof F]: TypeOf<F[K]> }> {
+  return (input) => {
+    if (!isRecord(input))
+      return failure(`expected an object, got ${describe(input)}`);
+    return decodeFields(input, fields);
+  };
+}
+
+function decodeFields<F extends Record<string, Decoder<any>>>(
+  input: Record<string, unknown>,
+  fields: F,
+  result: Record<string, unknown> = {},
+): Either<DecodeError, { [K in keyof F]: TypeOf<F[K]> }> {
+  const keys = Object.keys(fields);
+  return collect(keys.map((key) => [key, fields[key](input[key])])).map(
+    (values) =>
+      defineFields(result as { [K in keyof F]: TypeOf<F[K]> }, keys, values),
+  );
+}
+
+/**
+ * Adds decoded fields to an object. They are defined rather than assigned,
+ * so that a `__proto__` key becomes a field instead of replacing the
+ * prototype of the object.
+ */
+function defineFields<A>(
+  result: A,
+  keys: readonly string[],
+  values: readonly unknown[],
+): A {
+  keys.forEach((key, index) =>
+    Object.defineProperty(result, key, {
+      value: values[index],
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    }),
+  );
+  return result;
+}
+
+/**
+ * Builds a decoder of values that may be missing: `undefined` and `null`
+ * decode to `None`, and any other value is decoded into a `Some`.
+ *
+ * @param decoder Decoder of the value when present.
+ */
+export function optional<A>(decoder: Decoder<A>): Decoder<Option<A>> {
+  return (input) =>
+    input === undefined || input === null
+      ? Either.asRight(None.get<A>())
+      : decoder(input).map((value) => Option.pure(value));
+}
+
+/**
+ * Builds a decoder trying several decoders in order, keeping the first success.
+ * If all of them fail, the issues of all of them are reported.
+ *
+ * @param decoders Decoders of the alternatives.
+ */
+export function union<D extends Decoder<any>[]>(
+  ...decoders: D
+): Decoder<TypeOf<D[number]>> {
+  return (input) => {
+    const issues: DecodeIssue[] = [];
+    for (const decoder of decoders) {
+      const result = decoder(input);
+      if (isRight(result)) return result;
+      issues.push(
+        ...result.fold(
+          (error) => error.issues,
+          () => [],
+        ),
+      );
+    }
+    return Either.asLeft({ issues });
+  };
+}
+
+/**
+ * Builds a decoder accepting only the given values, compared with `===`.
+ *
+ * @param values The accepted values.
+ *
+ * @example
+ * const role = literal("admin", "user"); // Decoder<"admin" | "user">
+ */
+export function literal<
+  const L extends readonly (string | number | boolean | null)[],
+>(...values: L): Decoder<L[number]> {
+  return (input) =>
+    values.indexOf(input as L[number]) !== -1
+      ? Either.asRight(input as L[number])
+      : failure(
+          `expected ${values.map(describe).join(" or ")}, got ${describe(input)}`,
+        );
+}
+
+/**
+ * Builds a decoder of the sum types of ADTs.ts, objects whose `_type` field
+ * names a variant, with a decoder for each field of each variant.
+ * The decoded values can be passed to `match`, and are equal to the ones
+ * built by `makeConstructors`.
+ *
+ * @param variants Decoders of the fields of each variant.
+ *
+ * @example
+ * const shape = sum({
+ *   Circle: { radius: number },
+ *   Rectangle: { width: number, height: number },
+ * });
+ *
+ * shape(input).map((value) =>
+ *   match(value, {
+ *     Circle: ({ radius }) => Math.PI * radius ** 2,
+ *     Rectangle: ({ width, height }) => width * height,
+ *   }),
+ * );
+ */
+export function sum<V extends Record<string, Record<string, Decoder<any>>>>(
+  variants: V,
+): Decoder<Sum<{ [K in keyof V]: { [P in keyof V[K]]: TypeOf<V[K][P]> } }>> {
+  const cases: Record<
+    string,
+    (input: Record<string, unknown>) => Either<DecodeError, any>
+  > = {};
+  for (const variant of Object.keys(variants))
+    cases[variant] = (input) =>
+      decodeFields(input, variants[variant], { _type: variant });
+  return discriminated("_type", "a sum type", cases);
+}
+
+/**
+ * Builds a decoder of objects tagged with a `_tag` field, as written by the
+ * `toJSON` methods of the data types, choosing how to decode the rest of the
+ * object from the tag.
+ *
+ * @param name Description of the expected value, for error messages.
+ * @param cases Decoding function of each tag, given the whole object.
+ */
+export function tagged<A>(
+  name: string,
+  cases: {
+    [tag: string]: (input: Record<string, unknown>) => Either<DecodeError, A>;
+  },
+): Decoder<A> {
+  return discriminated("_tag", name, cases);
+}
+
+/**
+ * Builds a decoder of objects whose field `key` names their variant,
+ * choosing how to decode the rest of the object from it.
+ *
+ * @param key Field holding the name of the variant, such as `_type`.
+ * @param name Description of the expected value, for error messages.
+ * @param cases Decoding function of each variant, given the whole object.
+ */
+export function discriminated<A>(
+  key: string,
+  name: string,
+  cases: {
+    [tag: string]: (input: Record<string, unknown>) => Either<DecodeError, A>;
+  },
+): Decoder<A> {
+  return (input) => {
+    if (!isRecord(input))
+      return failure(`expected ${name}, got ${describe(input)}`);
+    const tag = input[key];
+    const tags = Object.keys(cases);
+    if (typeof tag !== "string" || tags.indexOf(tag) === -1)
+      return failure(
+        `expected one of ${tags.map(describe).join(", ")}, got ${describe(tag)}`,
+        [key],
+      );
+    return cases[tag](input);
+  };
+}
+
+/**
+ * Decodes a field of an object, locating its issues under the field's key.
+ *
+ * @param input Object holding the field.
+ * @param key Key of the field.
+ * @param decoder Decoder of the field.
+ */
+export function field<A>(
+  input: Record<string, unknown>,
+  key: string,
+  decoder: Decoder<A>,
+): Either<DecodeError, A> {
+  return at(key, decoder(input[key]));
+}
@@ -0,0 +1,71 @@
+import Monad from "./Monad";
+
+/**
+ * Runs a generator as a chain of `bind` calls, giving a flat, imperative-looking
+ * syntax to monadic code (a "do-notation").
+ *
+ * Every monad yielded with `yield*` is bound, and the generator is resumed with
+ * the bound value. The value returned by the generator is lifted with `pure`.
+ * A monad that never calls its continuation (`None`, `Left`, `Failure`) stops
+ * the generator there.
+ *
+ * The generator is resumed at most once per yield, so this only works for
+ * monads calling their `bind` continuation at most once. Multi-shot monads
+ * such as `List` must use `genReplay` instead.
+ *
+ * @template M - Type of the yielded monads.
+ * @template A - Type of the value returned by the generator.
+ * @template R - Type of the resulting monad.
+ * @param body Generator function describing the computation.
+ * @param pure Function lifting the returned value into the monad.
+ * @returns The monad resulting from the whole chain.
+ *
+ * @example
+ * const sum = gen(function* () {
+ *   const a = yield* Option.pure(1);
+ *   const b = yield* Option.pure(2);
+ *   return a + b;
+ * }, Option.pure); // Some(3)
+ */
+export default function gen<M extends Monad<any, any>, A, R>(
+  body: () => Generator<M, A, any>,
+  pure: (value: A) => R,
+): R {
+  const iterator = body();
+  const step = (input?: any): any => {
+    const result = iterator.next(input);
+    return result.done ? pure(result.value) : result.value.bind(step);
+  };
+  return step();
+}
+
+/**
+ * Runs a generator as a chain of `bind` calls, like `gen`, for monads that may
+ * call their continuation several times, such as `List`.
+ *
+ * Since a generator cannot be resumed twice from the same point, every call of
+ * a continuation restarts the generator and replays the values bound so far.
+ * The generator must therefore be free of side effects, and each yield costs
+ * a replay of the previous ones.
+ *
+ * @template M - Type of the yielded monads.
+ * @template A - Type of the value returned by the generator.
+ * @template R - Type of the resulting monad.
+ * @param body Pure generator function describing the computation.
+ * @param pure Function lifting the returned value into the monad.
+ * @returns The monad resulting from the whole chain.
+ */
+export function genReplay<M extends Monad<any, any>, A, R>(
+  body: () => Generator<M, A, any>,
+  pure: (value: A) => R,
+): R {
+  const run = (history: any[]): any => {
+    const iterator = body();
+    let result = iterator.next();
+    for (const value of history) result = iterator.next(value);
+    return result.done
+      ? pure(result.value)
+      : result.value.bind((value: any) => run([...history, value]));
+  };
+  return run([]);
+}
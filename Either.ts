@@ -1,5 +1,18 @@
+import gen from "./Do";
+import { Decoder, field, tagged } from "./Decoder";
+import Eq, { DefaultEq } from "./Eq";
+import { combineHash, hash } from "./Hash";
+import List from "./List";
 import Monad from "./Monad";
-import Option from "./Option";
+import Ord from "./Ord";
+import Option, { None } from "./Option";
+import Try, { Failure, Success } from "./Try";
+/**
+ * The JSON format of an `Either`.
+ */
+export type EitherJSON<L, R> =
+  { _tag: "Left"; value: L } | { _tag: "Right"; value: R };
+
 /**
  * Represents a disjoint union of two possible types: Left (failure) and Right (success).
  * This is a standard `Either` monad implementation.
@@ -10,12 +23,19 @@ import Option from "./Option";
 export default abstract class Either<L, R> implements Monad<R, Either<L, R>> {
   /**
    * Chains computations that return an `Either`.
+   * The function may fail with another Left type, which widens the result.
    *
-   * @template T
-   * @param {(value: R) => Either<L, T>} func - Function to apply to the Right value.
-   * @returns {Either<L, T>}
+   * @template T, L2
+   * @param {(value: R) => Either<L | L2, T>} func - Function to apply to the Right value.
+   * @returns {Either<L | L2, T>}
+   *
+   * @example
+   * const user: Either<NotFound, User> = findUser(id);
+   * user.bind(validateAge); // Either<NotFound | TooYoung, User>
    */
-  abstract bind<T>(func: (value: R) => Either<L, T>): Either<L, T>;
+  abstract bind<T, L2 = never>(
+    func: (value: R) => Either<L | L2, T>,
+  ): Either<L | L2, T>;
 
   /**
    * Applies one of two functions based on whether this is a Left or a Right.
@@ -64,6 +84,242 @@ export default abstract class Either<L, R> implements Monad<R, Either<L, R>> {
     return this.bind((value) => Either.asRight(func(value)));
   }
 
+  /**
+   * Maps the Left value using a function.
+   *
+   * @template M
+   * @param {(value: L) => M} func - Function to transform the Left value.
+   * @returns {Either<M, R>}
+   */
+  mapLeft<M>(func: (value: L) => M): Either<M, R> {
+    return this.bimap(func, (value) => value);
+  }
+
+  /**
+   * Maps the Left value or the Right value, whichever is present.
+   *
+   * @template M, T
+   * @param {(value: L) => M} onLeft - Function to transform the Left value.
+   * @param {(value: R) => T} onRight - Function to transform the Right value.
+   * @returns {Either<M, T>}
+   */
+  bimap<M, T>(onLeft: (value: L) => M, onRight: (value: R) => T): Either<M, T> {
+    return this.match({
+      ifLeft: (value) => Either.asLeft<M, T>(onLeft(value)),
+      ifRight: (value) => Either.asRight<M, T>(onRight(value)),
+    });
+  }
+
+  /**
+   * Turns a Left into a Right and a Right into a Left.
+   *
+   * @returns {Either<R, L>}
+   */
+  swap(): Either<R, L> {
+    return this.match({
+      ifLeft: (value) => Either.asRight<R, L>(value),
+      ifRight: (value) => Either.asLeft<R, L>(value),
+    });
+  }
+
+  /**
+   * Reduces the Either to a single value, like `match` with positional arms.
+   *
+   * @template D
+   * @param {(value: L) => D} onLeft - Function applied to a Left value.
+   * @param {(value: R) => D} onRight - Function applied to a Right value.
+   * @returns {D}
+   */
+  fold<D>(onLeft: (value: L) => D, onRight: (value: R) => D): D {
+    return this.match({ ifLeft: onLeft, ifRight: onRight });
+  }
+
+  /**
+   * Runs a side effect on the Right value, and returns this Either unchanged.
+   *
+   * @param {(value: R) => void} func - Side effect to run.
+   * @returns {Either<L, R>}
+   */
+  tap(func: (value: R) => void): Either<L, R> {
+    this.match({ ifLeft: () => undefined, ifRight: func });
+    return this;
+  }
+
+  /**
+   * Runs a side effect on the Left value, and returns this Either unchanged.
+   *
+   * @param {(value: L) => void} func - Side effect to run.
+   * @returns {Either<L, R>}
+   */
+  tapLeft(func: (value: L) => void): Either<L, R> {
+    this.match({ ifLeft: func, ifRight: () => undefined });
+    return this;
+  }
+
+  /**
+   * Keeps a Right value satisfying a predicate, or turns it into a Left
+   * built from the value. A type guard narrows the Right type.
+   *
+   * @template L2
+   * @param {(value: R) => boolean} predicate - Predicate the Right value must satisfy.
+   * @param {(value: R) => L2} onFail - Function building the Left value.
+   * @returns {Either<L | L2, R>}
+   */
+  filterOrElse<S extends R, L2>(
+    predicate: (value: R) => value is S,
+    onFail: (value: R) => L2,
+  ): Either<L | L2, S>;
+  filterOrElse<L2>(
+    predicate: (value: R) => boolean,
+    onFail: (value: R) => L2,
+  ): Either<L | L2, R>;
+  filterOrElse<L2>(
+    predicate: (value: R) => boolean,
+    onFail: (value: R) => L2,
+  ): Either<L | L2, R> {
+    return this.bind((value) =>
+      predicate(value)
+        ? Either.asRight<L | L2, R>(value)
+        : Either.asLeft<L | L2, R>(onFail(value)),
+    );
+  }
+
+  /**
+   * Converts to an Option, dropping the Left value.
+   *
+   * @returns {Option<R>}
+   */
+  toOption(): Option<R> {
+    return this.match({
+      ifLeft: () => None.get<R>(),
+      ifRight: (value) => Option.pure(value),
+    });
+  }
+
+  /**
+   * Converts to a Try, with the Left value as the error.
+   *
+   * @returns {Try<R, L>}
+   */
+  toTry(): Try<R, L> {
+    return this.match<Try<R, L>>({
+      ifLeft: (value) => new Failure<R, L>(value),
+      ifRight: (value) => new Success<R, L>(value),
+    });
+  }
+
+  /**
+   * Converts to the tagged JSON format, called by `JSON.stringify`.
+   *
+   * @returns {EitherJSON<L, R>} `{ _tag: "Left", value }` or `{ _tag: "Right", value }`.
+   */
+  toJSON(): EitherJSON<L, R> {
+    return this.match<EitherJSON<L, R>>({
+      ifLeft: (value) => ({ _tag: "Left", value }),
+      ifRight: (value) => ({ _tag: "Right", value }),
+    });
+  }
+
+  /**
+   * Maps the Right value with an asynchronous function.
+   *
+   * @template T
+   * @param {(value: R) => Promise<T>} func - Asynchronous function to apply to the Right value.
+   * @returns {Promise<Either<L, T>>}
+   */
+  mapAsync<T>(func: (value: R) => Promise<T>): Promise<Either<L, T>> {
+    return this.match({
+      ifLeft: (value) => Promise.resolve(Either.asLeft<L, T>(value)),
+      ifRight: (value) => func(value).then((result) => Either.asRight(result)),
+    });
+  }
+
+  /**
+   * Chains an asynchronous computation that returns an `Either`.
+   *
+   * @template T, L2
+   * @param {(value: R) => Promise<Either<L | L2, T>>} func - Asynchronous function to apply to the Right value.
+   * @returns {Promise<Either<L | L2, T>>}
+   *
+   * @example
+   * const order = await Either.fromPromise(fetchCart(id), toHttpError)
+   *   .then((cart) => cart.bindAsync(checkout));
+   */
+  bindAsync<T, L2 = never>(
+    func: (value: R) => Promise<Either<L | L2, T>>,
+  ): Promise<Either<L | L2, T>> {
+    return this.match({
+      ifLeft: (value) => Promise.resolve(Either.asLeft<L | L2, T>(value)),
+      ifRight: func,
+    });
+  }
+
+  /**
+   * Checks whether both are Left with equal values, or both are Right with equal values.
+   *
+   * @param {Either<L, R>} other - Either to compare with.
+   * @param {Eq<L>} eqL - Equality of the Left values, `DefaultEq` by default.
+   * @param {Eq<R>} eqR - Equality of the Right values, `DefaultEq` by default.
+   * @returns {boolean}
+   */
+  equals(
+    other: Either<L, R>,
+    eqL: Eq<L> = DefaultEq,
+    eqR: Eq<R> = DefaultEq,
+  ): boolean {
+    return this.match({
+      ifLeft: (x) =>
+        other.match({ ifLeft: (y) => eqL.equals(x, y), ifRight: () => false }),
+      ifRight: (x) =>
+        other.match({ ifLeft: () => false, ifRight: (y) => eqR.equals(x, y) }),
+    });
+  }
+
+  /**
+   * Hashes the Either, consistently with `equals` and `DefaultEq`.
+   *
+   * @returns {number} A 32-bit hash.
+   */
+  hashCode(): number {
+    return this.match({
+      ifLeft: (value) => combineHash(hash("Left"), hash(value)),
+      ifRight: (value) => combineHash(hash("Right"), hash(value)),
+    });
+  }
+
+  /**
+   * Builds an equality of Eithers from equalities of both sides.
+   *
+   * @template L, R
+   * @param {Eq<L>} eqL - Equality of the Left values.
+   * @param {Eq<R>} eqR - Equality of the Right values.
+   * @returns {Eq<Either<L, R>>}
+   */
+  static getEq<L, R>(eqL: Eq<L>, eqR: Eq<R>): Eq<Either<L, R>> {
+    return { equals: (x, y) => x.equals(y, eqL, eqR) };
+  }
+
+  /**
+   * Builds an order of Eithers from orders of both sides, where Left comes first.
+   *
+   * @template L, R
+   * @param {Ord<L>} ordL - Order of the Left values.
+   * @param {Ord<R>} ordR - Order of the Right values.
+   * @returns {Ord<Either<L, R>>}
+   */
+  static getOrd<L, R>(ordL: Ord<L>, ordR: Ord<R>): Ord<Either<L, R>> {
+    return {
+      equals: (x, y) => x.equals(y, ordL, ordR),
+      compare: (x, y) =>
+        x.match({
+          ifLeft: (a) =>
+            y.match({ ifLeft: (b) => ordL.compare(a, b), ifRight: () => -1 }),
+          ifRight: (a) =>
+            y.match({ ifLeft: () => 1, ifRight: (b) => ordR.compare(a, b) }),
+        }),
+    };
+  }
+
   /**
    * Constructs a Right.
    *
@@ -96,10 +352,266 @@ export default abstract class Either<L, R> implements Monad<R, Either<L, R>> {
    */
   static fromOption<L, R>(opt: Option<R>, left: L): Either<L, R> {
     return opt.match({
-      ifSome: Either.asRight,
-      ifNone: () => Either.asLeft(left),
+      ifSome: (value) => Either.asRight<L, R>(value),
+      ifNone: () => Either.asLeft<L, R>(left),
+    });
+  }
+
+  /**
+   * Builds a decoder of Eithers written by `toJSON`.
+   *
+   * @template L, R
+   * @param {Decoder<L>} decodeL - Decoder of the Left value.
+   * @param {Decoder<R>} decodeR - Decoder of the Right value.
+   * @returns {Decoder<Either<L, R>>}
+   */
+  static fromJSON<L, R>(
+    decodeL: Decoder<L>,
+    decodeR: Decoder<R>,
+  ): Decoder<Either<L, R>> {
+    return tagged<Either<L, R>>("an Either", {
+      Left: (input) =>
+        field(input, "value", decodeL).map((value) =>
+          Either.asLeft<L, R>(value),
+        ),
+      Right: (input) =>
+        field(input, "value", decodeR).map((value) =>
+          Either.asRight<L, R>(value),
+        ),
     });
   }
+
+  /**
+   * Constructs an Either from a nullable value.
+   *
+   * @template L, R
+   * @param {R | null | undefined} value - Value to convert.
+   * @param {L} left - Value to use if the value is null or undefined.
+   * @returns {Either<L, R>}
+   */
+  static fromNullable<L, R>(
+    value: R | null | undefined,
+    left: L,
+  ): Either<L, R> {
+    return value === null || value === undefined
+      ? Either.asLeft<L, R>(left)
+      : Either.asRight<L, R>(value);
+  }
+
+  /**
+   * Constructs a Right if the value satisfies a predicate, or a Left built from it.
+   * A type guard narrows the Right type.
+   *
+   * @template L, R
+   * @param {R} value - Value to test.
+   * @param {(value: R) => boolean} predicate - Predicate the value must satisfy.
+   * @param {(value: R) => L} onFail - Function building the Left value.
+   * @returns {Either<L, R>}
+   */
+  static fromPredicate<L, R, S extends R>(
+    value: R,
+    predicate: (value: R) => value is S,
+    onFail: (value: R) => L,
+  ): Either<L, S>;
+  static fromPredicate<L, R>(
+    value: R,
+    predicate: (value: R) => boolean,
+    onFail: (value: R) => L,
+  ): Either<L, R>;
+  static fromPredicate<L, R>(
+    value: R,
+    predicate: (value: R) => boolean,
+    onFail: (value: R) => L,
+  ): Either<L, R> {
+    return predicate(value)
+      ? Either.asRight<L, R>(value)
+      : Either.asLeft<L, R>(onFail(value));
+  }
+
+  /**
+   * Runs a function that may throw, catching the error as a Left.
+   *
+   * @template L, R
+   * @param {() => R} thunk - Function to run.
+   * @param {(error: unknown) => L} onError - Function building the Left value from the error.
+   * @returns {Either<L, R>}
+   *
+   * @example
+   * Either.tryCatch(() => JSON.parse(text), (error) => `invalid JSON: ${error}`);
+   */
+  static tryCatch<L, R>(
+    thunk: () => R,
+    onError: (error: unknown) => L,
+  ): Either<L, R> {
+    try {
+      return Either.asRight<L, R>(thunk());
+    } catch (error) {
+      return Either.asLeft<L, R>(onError(error));
+    }
+  }
+
+  /**
+   * Constructs an Either from a Try, with the error on the Left.
+   *
+   * @template E, A
+   * @param {Try<A, E>} attempt - Try to convert.
+   * @returns {Either<E, A>}
+   */
+  static fromTry<A, E>(attempt: Try<A, E>): Either<E, A> {
+    return attempt.toEither();
+  }
+
+  /**
+   * Waits for a promise, with its rejection on the Left.
+   * The returned promise never rejects.
+   *
+   * @template L, R
+   * @param {Promise<R>} promise - Promise to wait for.
+   * @param {(error: unknown) => L} onError - Function building the Left value from the rejection.
+   * @returns {Promise<Either<L, R>>}
+   */
+  static fromPromise<L, R>(
+    promise: Promise<R>,
+    onError: (error: unknown) => L,
+  ): Promise<Either<L, R>> {
+    return promise.then(
+      (value) => Either.asRight<L, R>(value),
+      (error) => Either.asLeft<L, R>(onError(error)),
+    );
+  }
+
+  /**
+   * Runs an asynchronous function, with its rejection or thrown error on the Left.
+   * The returned promise never rejects.
+   *
+   * @template L, R
+   * @param {() => Promise<R>} thunk - Asynchronous function to run.
+   * @param {(error: unknown) => L} onError - Function building the Left value from the error.
+   * @returns {Promise<Either<L, R>>}
+   */
+  static tryCatchAsync<L, R>(
+    thunk: () => Promise<R>,
+    onError: (error: unknown) => L,
+  ): Promise<Either<L, R>> {
+    return Either.fromPromise(
+      new Promise<R>((resolve) => resolve(thunk())),
+      onError,
+    );
+  }
+
+  /**
+   * Yields this `Either` inside `Either.gen`, evaluating to the Right value.
+   *
+   * @returns {Generator<Either<L, R>, R, any>}
+   */
+  *[Symbol.iterator](): Generator<Either<L, R>, R, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for `Either`: runs a generator where `yield*` unwraps an `Either`.
+   * The first Left yielded stops the generator and is returned.
+   *
+   * @template L, R
+   * @param {() => Generator<Either<L, any>, R, any>} body - Generator function describing the computation.
+   * @returns {Either<L, R>}
+   */
+  static gen<L, R>(
+    body: () => Generator<Either<L, any>, R, any>,
+  ): Either<L, R> {
+    return gen(body, (value: R) => Either.asRight<L, R>(value));
+  }
+
+  /**
+   * Applies a function returning an `Either` to every element, collecting the Right values.
+   * Stops at the first Left, without applying the function to the remaining elements.
+   *
+   * @template L, A, B
+   * @param {Iterable<A>} values - Elements to traverse.
+   * @param {(value: A, index: number) => Either<L, B>} func - Function to apply to each element and its index.
+   * @returns {Either<L, B[]>}
+   */
+  static traverse<L, A, B>(
+    values: Iterable<A>,
+    func: (value: A, index: number) => Either<L, B>,
+  ): Either<L, B[]> {
+    const result: B[] = [];
+    let index = 0;
+    for (const value of values) {
+      const step = func(value, index++).map((b) => {
+        result.push(b);
+        return result;
+      });
+      if (isLeft(step)) return step;
+    }
+    return Either.asRight(result);
+  }
+
+  /**
+   * Turns an array of `Either`s into an `Either` of an array, or the first Left.
+   *
+   * @template L, R
+   * @param {Iterable<Either<L, R>>} eithers - Eithers to collect.
+   * @returns {Either<L, R[]>}
+   */
+  static sequence<L, R>(eithers: Iterable<Either<L, R>>): Either<L, R[]> {
+    return Either.traverse(eithers, (either) => either);
+  }
+
+  /**
+   * Applies a function returning an `Either` to every field of a record.
+   *
+   * @template L, K, A, B
+   * @param {Record<K, A>} record - Record to traverse.
+   * @param {(value: A, key: K) => Either<L, B>} func - Function to apply to each field and its key.
+   * @returns {Either<L, Record<K, B>>}
+   */
+  static traverseRecord<L, K extends string, A, B>(
+    record: Record<K, A>,
+    func: (value: A, key: K) => Either<L, B>,
+  ): Either<L, Record<K, B>> {
+    const keys = Object.keys(record) as K[];
+    return Either.traverse(keys, (key) => func(record[key], key)).map(
+      (values) => {
+        const result = {} as Record<K, B>;
+        keys.forEach((key, index) => (result[key] = values[index]));
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Turns a record of `Either`s into an `Either` of a record, or the first Left.
+   *
+   * @template L, R
+   * @param record - Record of eithers, one per field of the result.
+   * @returns {Either<L, R>}
+   */
+  static sequenceRecord<L, R extends Record<string, unknown>>(record: {
+    [K in keyof R]: Either<L, R[K]>;
+  }): Either<L, R> {
+    return Either.traverseRecord(
+      record as Record<string, Either<L, unknown>>,
+      (either) => either,
+    ) as Either<L, R>;
+  }
+
+  /**
+   * Applies a function returning an `Either` to every element of a `List`.
+   *
+   * @template L, A, B
+   * @param {List<A>} list - List to traverse.
+   * @param {(value: A, index: number) => Either<L, B>} func - Function to apply to each element and its index.
+   * @returns {Either<L, List<B>>}
+   */
+  static traverseList<L, A, B>(
+    list: List<A>,
+    func: (value: A, index: number) => Either<L, B>,
+  ): Either<L, List<B>> {
+    return Either.traverse(list, func).map((values) =>
+      List.fromIterable(values),
+    );
+  }
 }
 
 /**
@@ -116,7 +628,9 @@ export class Right<L, R> extends Either<L, R> {
     super();
   }
 
-  bind<T>(func: (value: R) => Either<L, T>): Either<L, T> {
+  bind<T, L2 = never>(
+    func: (value: R) => Either<L | L2, T>,
+  ): Either<L | L2, T> {
     return func(this.value);
   }
 
@@ -151,8 +665,10 @@ export class Left<L, R> extends Either<L, R> {
     super();
   }
 
-  bind<T>(_func: (value: R) => Either<L, T>): Either<L, T> {
-    return new Left<L, T>(this.value);
+  bind<T, L2 = never>(
+    _func: (value: R) => Either<L | L2, T>,
+  ): Either<L | L2, T> {
+    return new Left<L | L2, T>(this.value);
   }
 
   match<D>({ ifLeft }: { ifLeft: (value: L) => D }): D {
@@ -0,0 +1,225 @@
+import Either from "./Either";
+import HKT, { Kind } from "./HKT";
+import Monad from "./Monad";
+import { Monad as MonadInstance } from "./Typeclass";
+
+/**
+ * The type constructor of `EitherT` over the effect `F`, with Left type `L`.
+ */
+export interface EitherTKind<F extends HKT, L> extends HKT {
+  readonly type: EitherT<F, L, this["A"]>;
+}
+
+/**
+ * Monad transformer adding a typed error channel to an effect: an
+ * `EitherT<F, L, R>` wraps a `Kind<F, Either<L, R>>`, such as an
+ * `IO<Either<L, R>>`.
+ *
+ * Binding runs the effect and only continues on a Right, so effects failing
+ * with domain errors can be chained without nested `match` calls.
+ *
+ * @template F The type constructor of the underlying effect.
+ * @template L The type of the Left case (usually a domain error).
+ * @template R The type of the Right case.
+ *
+ * @example
+ * const order = EitherT.lift<IOKind, OrderError, Cart>(IOMonad, loadCart)
+ *   .bind((cart) =>
+ *     cart.items.length > 0
+ *       ? EitherT.right(IOMonad, cart)
+ *       : EitherT.left(IOMonad, "empty cart"),
+ *   );
+ *
+ * order.run().runUnsafe(); // Either<OrderError, Cart>
+ */
+export default class EitherT<F extends HKT, L, R> implements Monad<
+  R,
+  EitherT<F, L, R>
+> {
+  /**
+   * Constructs a new EitherT. Use `EitherT.right`, `EitherT.left`,
+   * `EitherT.lift` or `EitherT.fromEither` instead.
+   * @param effect The instance of the underlying effect.
+   * @param value The wrapped effect producing an Either.
+   */
+  private constructor(
+    private effect: MonadInstance<F>,
+    private value: Kind<F, Either<L, R>>,
+  ) {}
+
+  /**
+   * Unwraps the underlying effect.
+   *
+   * @returns The effect producing an Either.
+   */
+  run(): Kind<F, Either<L, R>> {
+    return this.value;
+  }
+
+  /**
+   * Sequences a computation depending on the Right value.
+   *
+   * @template T The type of the next Right value.
+   * @param func Function mapping a Right value to the next EitherT.
+   * @returns A new EitherT representing the sequential composition.
+   */
+  bind<T>(func: (value: R) => EitherT<F, L, T>): EitherT<F, L, T> {
+    return new EitherT<F, L, T>(
+      this.effect,
+      this.effect.bind(this.value, (either: Either<L, R>) =>
+        either.match({
+          ifLeft: (left) => this.effect.of(Either.asLeft<L, T>(left)),
+          ifRight: (value) => func(value).value,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Applies a pure function to the Right value.
+   *
+   * @template T The type of the transformed value.
+   * @param func Function to transform the Right value.
+   * @returns A new EitherT containing the transformed value.
+   */
+  map<T>(func: (value: R) => T): EitherT<F, L, T> {
+    return new EitherT<F, L, T>(
+      this.effect,
+      this.effect.map(this.value, (either: Either<L, R>) => either.map(func)),
+    );
+  }
+
+  /**
+   * Applies a pure function to the Left value.
+   *
+   * @template M The type of the transformed Left value.
+   * @param func Function to transform the Left value.
+   * @returns A new EitherT with the transformed Left value.
+   */
+  mapLeft<M>(func: (value: L) => M): EitherT<F, M, R> {
+    return new EitherT<F, M, R>(
+      this.effect,
+      this.effect.map(this.value, (either: Either<L, R>) =>
+        either.match({
+          ifLeft: (left) => Either.asLeft<M, R>(func(left)),
+          ifRight: (value) => Either.asRight<M, R>(value),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Recovers from a Left by switching to another EitherT.
+   *
+   * @param func Function producing the fallback EitherT from the Left value.
+   * @returns A new EitherT.
+   */
+  orElse(func: (value: L) => EitherT<F, L, R>): EitherT<F, L, R> {
+    return new EitherT<F, L, R>(
+      this.effect,
+      this.effect.bind(this.value, (either: Either<L, R>) =>
+        either.match({
+          ifLeft: (left) => func(left).value,
+          ifRight: (_value) => this.effect.of(either),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Extracts the Right value inside the effect, or a default on a Left.
+   *
+   * @param defaultValue Value to produce on a Left.
+   * @returns The effect producing the value.
+   */
+  getOrElse(defaultValue: R): Kind<F, R> {
+    return this.effect.map(this.value, (either: Either<L, R>) =>
+      either.getOrElse(defaultValue),
+    );
+  }
+
+  /**
+   * Lifts a pure value into a Right inside the effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The Right value.
+   */
+  static right<F extends HKT, L, R>(
+    effect: MonadInstance<F>,
+    value: R,
+  ): EitherT<F, L, R> {
+    return EitherT.fromEither(effect, Either.asRight<L, R>(value));
+  }
+
+  /**
+   * Lifts a pure value into a Left inside the effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The Left value.
+   */
+  static left<F extends HKT, L, R>(
+    effect: MonadInstance<F>,
+    value: L,
+  ): EitherT<F, L, R> {
+    return EitherT.fromEither(effect, Either.asLeft<L, R>(value));
+  }
+
+  /**
+   * Lifts an Either into the effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param either The Either to lift.
+   */
+  static fromEither<F extends HKT, L, R>(
+    effect: MonadInstance<F>,
+    either: Either<L, R>,
+  ): EitherT<F, L, R> {
+    return new EitherT<F, L, R>(effect, effect.of(either));
+  }
+
+  /**
+   * Lifts an effect, whose result becomes a Right.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param fa The effect to lift.
+   */
+  static lift<F extends HKT, L, R>(
+    effect: MonadInstance<F>,
+    fa: Kind<F, R>,
+  ): EitherT<F, L, R> {
+    return new EitherT<F, L, R>(
+      effect,
+      effect.map(fa, (value: R) => Either.asRight<L, R>(value)),
+    );
+  }
+
+  /**
+   * Wraps an effect already producing an Either.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The effect producing an Either.
+   */
+  static from<F extends HKT, L, R>(
+    effect: MonadInstance<F>,
+    value: Kind<F, Either<L, R>>,
+  ): EitherT<F, L, R> {
+    return new EitherT<F, L, R>(effect, value);
+  }
+
+  /**
+   * Returns the Monad instance of EitherT over `F`, so that other
+   * transformers can be stacked on top of it.
+   *
+   * @param effect The instance of the underlying effect.
+   */
+  static monad<F extends HKT, L>(
+    effect: MonadInstance<F>,
+  ): MonadInstance<EitherTKind<F, L>> {
+    return {
+      of: (value) => EitherT.right(effect, value),
+      map: (fa, func) => fa.map(func),
+      ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+      bind: (fa, func) => fa.bind(func),
+    };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * A typeclass for types whose values can be compared for equality.
+ *
+ * Instances must be reflexive, symmetric and transitive.
+ */
+export default interface Eq<A> {
+  equals(x: A, y: A): boolean;
+}
+
+/**
+ * Values with their own notion of equality, such as `Option`, `Either` or `List`.
+ */
+export interface Equatable {
+  equals(other: unknown): boolean;
+}
+
+function isEquatable(value: unknown): value is Equatable {
+  return (
+    typeof value == "object" &&
+    value !== null &&
+    typeof (value as Equatable).equals == "function"
+  );
+}
+
+/**
+ * Compares values with `===`.
+ */
+export const StrictEq: Eq<any> = {
+  equals: (x, y) => x === y,
+};
+
+/**
+ * Compares values with their own `equals` method when they have one,
+ * and with `===` otherwise. This is the default equality of the data types.
+ */
+export const DefaultEq: Eq<any> = {
+  equals: (x, y) => (isEquatable(x) ? x.equals(y) : x === y),
+};
+
+export function fromEquals<A>(equals: (x: A, y: A) => boolean): Eq<A> {
+  return { equals: (x, y) => x === y || equals(x, y) };
+}
+
+/**
+ * Compares values of type `B` by comparing their images of type `A`.
+ */
+export function contramap<A, B>(eq: Eq<A>, func: (value: B) => A): Eq<B> {
+  return fromEquals((x, y) => eq.equals(func(x), func(y)));
+}
+
+/**
+ * Compares arrays element by element.
+ */
+export function ArrayEq<A>(eq: Eq<A>): Eq<A[]> {
+  return fromEquals(
+    (x, y) =>
+      x.length == y.length && x.every((value, i) => eq.equals(value, y[i])),
+  );
+}
+
+/**
+ * Compares objects field by field, using one instance per field.
+ */
+export function StructEq<A>(eqs: { [K in keyof A]: Eq<A[K]> }): Eq<A> {
+  const keys = Object.keys(eqs) as (keyof A)[];
+  return fromEquals((x, y) =>
+    keys.every((key) => eqs[key].equals(x[key], y[key])),
+  );
+}
+
+/**
+ * Compares tuples position by position, using one instance per position.
+ */
+export function TupleEq<T extends unknown[]>(
+  ...eqs: { [K in keyof T]: Eq<T[K]> }
+): Eq<T> {
+  return fromEquals((x, y) =>
+    eqs.every((eq, i) => (eq as Eq<unknown>).equals(x[i], y[i])),
+  );
+}
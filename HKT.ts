@@ -0,0 +1,61 @@
+/**
+ * Encoding of higher-kinded types, i.e. type constructors such as `IO` or
+ * `Option` that can be referred to before being applied to a type argument.
+ *
+ * A type constructor is represented by an interface extending `HKT`, whose
+ * `type` refers to `this["A"]`. `Kind` applies it to an argument by fixing `A`:
+ *
+ * @example
+ * interface IOKind extends HKT {
+ *   readonly type: IO<this["A"]>;
+ * }
+ * type X = Kind<IOKind, number>; // IO<number>
+ *
+ * Constructors with a second parameter, such as the Left type of `Either`,
+ * may refer to `this["E"]`, fixed by the third argument of `Kind`. Other
+ * parameters are fixed in the interface, e.g. `EitherTKind<F, L>`.
+ */
+export default interface HKT {
+  readonly A: unknown;
+  readonly E: unknown;
+  readonly type: unknown;
+}
+
+/**
+ * Applies the type constructor `F` to the type `A`, and to `E` if it has a
+ * second parameter.
+ *
+ * The conditional lets the compiler resolve the application as soon as `F`
+ * is known, so that `A` and `E` can be inferred from e.g. an `Option<number>`.
+ */
+export type Kind<F extends HKT, A, E = unknown> = F extends {
+  readonly type: unknown;
+}
+  ? (F & { readonly A: A; readonly E: E })["type"]
+  : never;
+
+/**
+ * The registry of named type constructors, mapping a URI to its `HKT`.
+ *
+ * Modules defining type constructors register them by augmenting this
+ * interface, which lets a constructor be referred to by name:
+ *
+ * @example
+ * declare module "./HKT" {
+ *   interface URItoKind {
+ *     Option: OptionKind;
+ *   }
+ * }
+ * type X = KindOf<"Option", number>; // Option<number>
+ */
+export interface URItoKind {}
+
+/**
+ * The URIs of all registered type constructors.
+ */
+export type URIS = keyof URItoKind;
+
+/**
+ * Applies the type constructor registered under `U`.
+ */
+export type KindOf<U extends URIS, A, E = unknown> = Kind<URItoKind[U], A, E>;
@@ -0,0 +1,53 @@
+/**
+ * Values with their own hash, such as `Option`, `Either` or `List`.
+ *
+ * Values that are equal must have the same hash.
+ */
+export interface Hashable {
+  hashCode(): number;
+}
+
+function isHashable(value: unknown): value is Hashable {
+  return (
+    typeof value == "object" &&
+    value !== null &&
+    typeof (value as Hashable).hashCode == "function"
+  );
+}
+
+/**
+ * Mixes a hash into another, as a 32-bit integer.
+ */
+export function combineHash(seed: number, hash: number): number {
+  return (Math.imul(seed, 31) + hash) | 0;
+}
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++)
+    hash = combineHash(hash, value.charCodeAt(i));
+  return hash;
+}
+
+/**
+ * Computes a 32-bit hash consistent with `DefaultEq` from Eq.ts:
+ * primitives are hashed by value, `Hashable` values with their `hashCode`,
+ * arrays element by element, and other objects to a constant.
+ */
+export function hash(value: unknown): number {
+  switch (typeof value) {
+    case "number":
+      return Number.isInteger(value) ? value | 0 : hashString(String(value));
+    case "string":
+      return hashString(value);
+    case "boolean":
+      return value ? 1231 : 1237;
+    case "undefined":
+      return 0;
+  }
+  if (value === null) return 1;
+  if (isHashable(value)) return value.hashCode();
+  if (Array.isArray(value))
+    return value.reduce((acc: number, item) => combineHash(acc, hash(item)), 7);
+  return 2;
+}
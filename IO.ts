@@ -1,4 +1,34 @@
+import { Sum } from "./ADTs";
+import gen from "./Do";
+import Either from "./Either";
+import List from "./List";
 import Monad from "./Monad";
+import Try, { Failure, Success } from "./Try";
+
+/**
+ * The instructions an `IO` program is built from:
+ * - `Pure`: an already computed value.
+ * - `Suspend`: a deferred effect.
+ * - `Fail`: a raised error.
+ * - `FlatMap`: a source IO followed by a continuation.
+ * - `HandleErrorWith`: a source IO whose errors are passed to a handler.
+ */
+type IONode<A> = Sum<{
+  Pure: { value: A };
+  Suspend: { thunk: () => A };
+  Fail: { error: unknown };
+  FlatMap: { source: IO<any>; func: (value: any) => IO<A> };
+  HandleErrorWith: { source: IO<A>; handler: (error: unknown) => IO<A> };
+}>;
+
+/**
+ * The entries of the interpreter stack: a continuation waiting for a value,
+ * or an error handler waiting for a failure.
+ */
+type Frame = Sum<{
+  Continue: { func: (value: any) => IO<any> };
+  Recover: { handler: (error: unknown) => IO<any> };
+}>;
 
 /**
  * Represents a deferred computation that produces a value of type `A`.
@@ -17,19 +47,67 @@ import Monad from "./Monad";
  */
 export default class IO<A> implements Monad<A, IO<A>> {
   /**
-   * Constructs a new IO from a deferred effectful function.
-   * @param effect A function representing the deferred effectful computation.
+   * Constructs a new IO from a node of the IO program.
+   * Use `IO.of` or `IO.from` instead.
+   * @param node The instruction this IO represents.
    */
-  constructor(private effect: () => A) {}
+  private constructor(private node: IONode<A>) {}
 
   /**
    * Executes the encapsulated effectful computation.
    * This is the only point where side effects happen.
    *
+   * The program is interpreted by a loop that keeps pending continuations
+   * and error handlers on an explicit stack, so arbitrarily deep `bind`
+   * chains run in constant JS stack depth.
+   *
    * @returns The result of the effectful computation.
+   * @throws Any error raised by the program and not handled inside it.
    */
   runUnsafe(): A {
-    return this.effect();
+    const frames: Frame[] = [];
+    let current: IO<any> = this;
+
+    while (true) {
+      try {
+        const node = current.node as IONode<any>;
+        let value: any;
+
+        switch (node._type) {
+          case "FlatMap":
+            frames.push({ _type: "Continue", func: node.func });
+            current = node.source;
+            continue;
+          case "HandleErrorWith":
+            frames.push({ _type: "Recover", handler: node.handler });
+            current = node.source;
+            continue;
+          case "Fail":
+            throw node.error;
+          case "Pure":
+            value = node.value;
+            break;
+          case "Suspend":
+            value = node.thunk();
+            break;
+        }
+
+        // Handlers are skipped on success
+        let frame = frames.pop();
+        while (frame !== undefined && frame._type === "Recover")
+          frame = frames.pop();
+        if (frame === undefined) return value;
+        current = frame.func(value);
+      } catch (error) {
+        // Continuations are skipped on failure
+        let frame = frames.pop();
+        while (frame !== undefined && frame._type === "Continue")
+          frame = frames.pop();
+        if (frame === undefined) throw error;
+        // Run the handler inside the loop so that its own errors are caught
+        current = IO.of(error).bind(frame.handler);
+      }
+    }
   }
 
   /**
@@ -42,7 +120,7 @@ export default class IO<A> implements Monad<A, IO<A>> {
    * @returns A new IO representing the sequential composition.
    */
   bind<B>(func: (value: A) => IO<B>): IO<B> {
-    return new IO<B>(() => func(this.effect()).runUnsafe());
+    return new IO<B>({ _type: "FlatMap", source: this, func });
   }
 
   /**
@@ -54,7 +132,7 @@ export default class IO<A> implements Monad<A, IO<A>> {
    * @returns A new IO containing the transformed value.
    */
   map<B>(func: (value: A) => B): IO<B> {
-    return new IO<B>(() => func(this.effect()));
+    return this.bind((value) => IO.of(func(value)));
   }
 
   /**
@@ -66,7 +144,7 @@ export default class IO<A> implements Monad<A, IO<A>> {
    * @returns An IO wrapping the pure value.
    */
   static of<A>(value: A): IO<A> {
-    return new IO<A>(() => value);
+    return new IO<A>({ _type: "Pure", value });
   }
 
   /**
@@ -77,6 +155,219 @@ export default class IO<A> implements Monad<A, IO<A>> {
    * @returns An IO wrapping the thunk.
    */
   static from<A>(thunk: () => A): IO<A> {
-    return new IO<A>(thunk);
+    return new IO<A>({ _type: "Suspend", thunk });
+  }
+
+  /**
+   * Yields this IO inside `IO.gen`, evaluating to its result.
+   */
+  *[Symbol.iterator](): Generator<IO<A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for IO: runs a generator where `yield*` runs an IO.
+   * The generator itself is only started when the returned IO is run,
+   * and is started again on every run.
+   *
+   * @template A The type of the value returned by the generator.
+   * @param body Generator function describing the computation.
+   * @returns An IO producing the returned value.
+   */
+  static gen<A>(body: () => Generator<IO<any>, A, any>): IO<A> {
+    return IO.of(undefined).bind(() => gen(body, (value: A) => IO.of(value)));
+  }
+
+  /**
+   * Applies a function returning an IO to every element, and runs the
+   * resulting IOs one after the other, collecting their results.
+   * If one of them fails, the remaining ones are not run.
+   *
+   * @template A The type of the elements.
+   * @template B The type of the results.
+   * @param values Elements to traverse, read once when this is called.
+   * @param func Function to apply to each element and its index.
+   * @returns An IO producing all the results in order.
+   */
+  static traverse<A, B>(
+    values: Iterable<A>,
+    func: (value: A, index: number) => IO<B>,
+  ): IO<B[]> {
+    const items = Array.from(values);
+    // Each run collects into its own array
+    return IO.from((): B[] => []).bind((result) =>
+      items.reduce(
+        (program, value, index) =>
+          program.bind(() =>
+            func(value, index).map((b) => {
+              result.push(b);
+              return result;
+            }),
+          ),
+        IO.of(result),
+      ),
+    );
+  }
+
+  /**
+   * Runs IOs one after the other, collecting their results.
+   *
+   * @template A The type of the results.
+   * @param ios IOs to run.
+   * @returns An IO producing all the results in order.
+   */
+  static sequence<A>(ios: Iterable<IO<A>>): IO<A[]> {
+    return IO.traverse(ios, (io) => io);
+  }
+
+  /**
+   * Applies a function returning an IO to every field of a record, and runs
+   * the resulting IOs one after the other, in key order.
+   *
+   * @template K The type of the keys.
+   * @template A The type of the fields.
+   * @template B The type of the results.
+   * @param record Record to traverse.
+   * @param func Function to apply to each field and its key.
+   * @returns An IO producing a record with the same keys.
+   */
+  static traverseRecord<K extends string, A, B>(
+    record: Record<K, A>,
+    func: (value: A, key: K) => IO<B>,
+  ): IO<Record<K, B>> {
+    const keys = Object.keys(record) as K[];
+    return IO.traverse(keys, (key) => func(record[key], key)).map((values) => {
+      const result = {} as Record<K, B>;
+      keys.forEach((key, index) => (result[key] = values[index]));
+      return result;
+    });
+  }
+
+  /**
+   * Runs a record of IOs one after the other, in key order.
+   *
+   * @template R The type of the resulting record.
+   * @param record Record of IOs, one per field of the result.
+   * @returns An IO producing the record of results.
+   */
+  static sequenceRecord<R extends Record<string, unknown>>(record: {
+    [K in keyof R]: IO<R[K]>;
+  }): IO<R> {
+    return IO.traverseRecord(
+      record as Record<string, IO<unknown>>,
+      (io) => io,
+    ) as IO<R>;
+  }
+
+  /**
+   * Applies a function returning an IO to every element of a `List`, and runs
+   * the resulting IOs one after the other.
+   *
+   * @template A The type of the elements.
+   * @template B The type of the results.
+   * @param list List to traverse.
+   * @param func Function to apply to each element and its index.
+   * @returns An IO producing the list of results.
+   */
+  static traverseList<A, B>(
+    list: List<A>,
+    func: (value: A, index: number) => IO<B>,
+  ): IO<List<B>> {
+    return IO.traverse(list, func).map((values) => List.fromIterable(values));
+  }
+
+  /**
+   * Lifts an error into the IO context.
+   * Running the returned IO throws the error, unless it is handled.
+   *
+   * @template A The type of the value the IO would have produced.
+   * @param error The error to raise.
+   * @returns An IO failing with the error.
+   */
+  static raiseError<A = never>(error: unknown): IO<A> {
+    return new IO<A>({ _type: "Fail", error });
+  }
+
+  /**
+   * Recovers from an error raised by this IO by switching to another IO.
+   *
+   * @param handler Function producing the fallback IO from the error.
+   * @returns An IO that runs the handler's IO if this IO fails.
+   */
+  handleErrorWith(handler: (error: unknown) => IO<A>): IO<A> {
+    return new IO<A>({ _type: "HandleErrorWith", source: this, handler });
+  }
+
+  /**
+   * Recovers from an error raised by this IO with a fallback value.
+   *
+   * @param handler Function producing the fallback value from the error.
+   * @returns An IO that produces the fallback value if this IO fails.
+   */
+  handleError(handler: (error: unknown) => A): IO<A> {
+    return this.handleErrorWith((error) => IO.of(handler(error)));
+  }
+
+  /**
+   * Exposes errors raised by this IO as values.
+   *
+   * @returns An IO producing `Right` with the value, or `Left` with the error.
+   */
+  attempt(): IO<Either<unknown, A>> {
+    return this.map((value) => Either.asRight<unknown, A>(value)).handleError(
+      (error) => Either.asLeft<unknown, A>(error),
+    );
+  }
+
+  /**
+   * Exposes errors raised by this IO as a `Try`.
+   *
+   * @returns An IO producing `Success` with the value, or `Failure` with the error.
+   */
+  attemptTry(): IO<Try<A>> {
+    return this.map((value): Try<A> => new Success(value)).handleError(
+      (error) => new Failure<A>(error),
+    );
+  }
+
+  /**
+   * Runs a finalizer after this IO, whether it succeeds or fails.
+   * The original result or error is kept after the finalizer has run.
+   *
+   * @param finalizer IO to run once this IO has completed.
+   * @returns An IO that always runs the finalizer.
+   */
+  ensuring(finalizer: IO<unknown>): IO<A> {
+    return this.handleErrorWith((error) =>
+      finalizer.bind(() => IO.raiseError<A>(error)),
+    ).bind((value) => finalizer.map(() => value));
+  }
+
+  /**
+   * Acquires a resource, uses it, and always releases it afterwards,
+   * even if using it fails.
+   *
+   * @template R The type of the resource.
+   * @template B The type of the result.
+   * @param acquire IO acquiring the resource.
+   * @param use Function using the resource.
+   * @param release Function releasing the resource.
+   * @returns An IO producing the result of `use`.
+   *
+   * @example
+   * const contents = IO.bracket(
+   *   IO.from(() => fs.openSync(path, "r")),
+   *   (fd) => IO.from(() => fs.readFileSync(fd, "utf8")),
+   *   (fd) => IO.from(() => fs.closeSync(fd)),
+   * );
+   */
+  static bracket<R, B>(
+    acquire: IO<R>,
+    use: (resource: R) => IO<B>,
+    release: (resource: R) => IO<unknown>,
+  ): IO<B> {
+    return acquire.bind((resource) =>
+      IO.of(resource).bind(use).ensuring(release(resource)),
+    );
   }
 }
@@ -0,0 +1,312 @@
+import Either from "./Either";
+import HKT, { KindOf, URIS, URItoKind } from "./HKT";
+import IO from "./IO";
+import LazyList from "./LazyList";
+import List from "./List";
+import Monoid from "./Monoid";
+import Option, { None } from "./Option";
+import Parser from "./Parser";
+import Reader from "./Reader";
+import State from "./State";
+import Task from "./Task";
+import Try, { Failure, Success } from "./Try";
+import {
+  Applicative,
+  Foldable,
+  Monad,
+  Traversable,
+  sequence,
+} from "./Typeclass";
+import Validation from "./Validation";
+import Writer from "./Writer";
+
+export interface OptionKind extends HKT {
+  readonly type: Option<this["A"]>;
+}
+
+export interface EitherKind extends HKT {
+  readonly type: Either<this["E"], this["A"]>;
+}
+
+export interface TryKind extends HKT {
+  readonly type: Try<this["A"], this["E"]>;
+}
+
+export interface ListKind extends HKT {
+  readonly type: List<this["A"]>;
+}
+
+export interface LazyListKind extends HKT {
+  readonly type: LazyList<this["A"]>;
+}
+
+export interface IOKind extends HKT {
+  readonly type: IO<this["A"]>;
+}
+
+export interface TaskKind extends HKT {
+  readonly type: Task<this["A"]>;
+}
+
+export interface ParserKind extends HKT {
+  readonly type: Parser<this["A"]>;
+}
+
+export interface ReaderKind extends HKT {
+  readonly type: Reader<this["E"], this["A"]>;
+}
+
+export interface StateKind extends HKT {
+  readonly type: State<this["E"], this["A"]>;
+}
+
+/**
+ * `Writer` with its log type fixed, since its instances need a `Monoid<W>`.
+ */
+export interface WriterKind<W> extends HKT {
+  readonly type: Writer<W, this["A"]>;
+}
+
+/**
+ * `Validation` with its error type fixed, since its instances need a `Monoid<E>`.
+ */
+export interface ValidationKind<E> extends HKT {
+  readonly type: Validation<E, this["A"]>;
+}
+
+declare module "./HKT" {
+  interface URItoKind {
+    Option: OptionKind;
+    Either: EitherKind;
+    Try: TryKind;
+    List: ListKind;
+    LazyList: LazyListKind;
+    IO: IOKind;
+    Task: TaskKind;
+    Parser: ParserKind;
+    Reader: ReaderKind;
+    State: StateKind;
+  }
+}
+
+export const OptionMonad: Monad<OptionKind> = {
+  of: (value) => Option.pure(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const OptionTraversable: Traversable<OptionKind> = {
+  map: OptionMonad.map,
+  foldLeft: (fa, seed, func) =>
+    fa.match({ ifSome: (value) => func(seed, value), ifNone: () => seed }),
+  traverse: (G) => (fa, func) =>
+    fa.match({
+      ifSome: (value) => G.map(func(value), (b) => Option.pure(b)),
+      ifNone: () => G.of(None.get()),
+    }),
+};
+
+export const EitherMonad: Monad<EitherKind> = {
+  of: (value) => Either.asRight(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const EitherTraversable: Traversable<EitherKind> = {
+  map: EitherMonad.map,
+  foldLeft: (fa, seed, func) =>
+    fa.match({ ifLeft: () => seed, ifRight: (value) => func(seed, value) }),
+  traverse: (G) => (fa, func) =>
+    fa.match({
+      ifLeft: (value) => G.of(Either.asLeft(value)),
+      ifRight: (value) => G.map(func(value), (b) => Either.asRight(b)),
+    }),
+};
+
+export const TryMonad: Monad<TryKind> = {
+  of: (value) => new Success(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const TryTraversable: Traversable<TryKind> = {
+  map: TryMonad.map,
+  foldLeft: (fa, seed, func) =>
+    fa.match({
+      ifSuccess: (value) => func(seed, value),
+      ifFailure: () => seed,
+    }),
+  traverse: (G) => (fa, func) =>
+    fa.match({
+      ifSuccess: (value) => G.map(func(value), (b) => new Success(b)),
+      ifFailure: (error) => G.of(new Failure(error)),
+    }),
+};
+
+export const ListMonad: Monad<ListKind> = {
+  of: (value) => List.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const ListTraversable: Traversable<ListKind> = {
+  map: ListMonad.map,
+  foldLeft: (fa, seed, func) => fa.foldLeft(seed)(func),
+  traverse: (G) => (fa, func) =>
+    G.map(sequence(G)(fa.toArray().map(func)), (values) =>
+      List.fromIterable(values),
+    ),
+};
+
+export const LazyListMonad: Monad<LazyListKind> = {
+  of: (value) => LazyList.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+/**
+ * Folds a lazy list, which never returns for an infinite list.
+ */
+export const LazyListFoldable: Foldable<LazyListKind> = {
+  foldLeft: (fa, seed, func) => fa.foldLeft(seed)(func),
+};
+
+export const IOMonad: Monad<IOKind> = {
+  of: (value) => IO.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const TaskMonad: Monad<TaskKind> = {
+  of: (value) => Task.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const ParserMonad: Monad<ParserKind> = {
+  of: (value) => Parser.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const ReaderMonad: Monad<ReaderKind> = {
+  of: (value) => Reader.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+export const StateMonad: Monad<StateKind> = {
+  of: (value) => State.of(value),
+  map: (fa, func) => fa.map(func),
+  ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+  bind: (fa, func) => fa.bind(func),
+};
+
+/**
+ * Builds the Monad instance of `Writer` for a log type.
+ * @param monoid Monoid combining the logs.
+ */
+export function getWriterMonad<W>(monoid: Monoid<W>): Monad<WriterKind<W>> {
+  return {
+    of: (value) => Writer.of(value, monoid),
+    map: (fa, func) => fa.map(func),
+    ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+    bind: (fa, func) => fa.bind((value) => func(value)),
+  };
+}
+
+/**
+ * Builds the Traversable instance of `Writer` for a log type, which keeps
+ * the log of the traversed writer.
+ */
+export function getWriterTraversable<W>(): Traversable<WriterKind<W>> {
+  return {
+    map: (fa, func) => fa.map(func),
+    foldLeft: (fa, seed, func) => func(seed, fa.value),
+    traverse: (G) => (fa, func) =>
+      G.map(func(fa.value), (b) => fa.map(() => b)),
+  };
+}
+
+/**
+ * Builds the Applicative instance of `Validation` for an error type, which
+ * accumulates the errors of all validations.
+ * @param monoid Monoid combining the errors.
+ */
+export function getValidationApplicative<E>(
+  monoid: Monoid<E>,
+): Applicative<ValidationKind<E>> {
+  return {
+    of: (value) => Validation.valid(value),
+    map: (fa, func) => fa.map(func),
+    ap: (ff, fa) => ff.ap(fa, monoid),
+  };
+}
+
+/**
+ * Builds the Traversable instance of `Validation` for an error type, which
+ * folds and traverses the value of a `Valid`, and keeps an `Invalid` as is.
+ */
+export function getValidationTraversable<E>(): Traversable<ValidationKind<E>> {
+  return {
+    map: (fa, func) => fa.map(func),
+    foldLeft: (fa, seed, func) =>
+      fa.match({
+        ifValid: (value) => func(seed, value),
+        ifInvalid: () => seed,
+      }),
+    traverse: (G) => (fa, func) =>
+      fa.match({
+        ifValid: (value) => G.map(func(value), (b) => Validation.valid(b)),
+        ifInvalid: (errors) => G.of(Validation.invalid(errors)),
+      }),
+  };
+}
+
+/**
+ * The Monad instances of the type constructors registered in `URItoKind`,
+ * by URI. Registering a type constructor requires adding its instance here.
+ */
+const monads: { readonly [U in URIS]: Monad<URItoKind[U]> } = {
+  Option: OptionMonad,
+  Either: EitherMonad,
+  Try: TryMonad,
+  List: ListMonad,
+  LazyList: LazyListMonad,
+  IO: IOMonad,
+  Task: TaskMonad,
+  Parser: ParserMonad,
+  Reader: ReaderMonad,
+  State: StateMonad,
+};
+
+/**
+ * Returns the Monad instance of the type constructor registered under a URI.
+ * @param uri Name of the type constructor in `URItoKind`.
+ */
+export function getMonad<U extends URIS>(uri: U): Monad<URItoKind[U]> {
+  return monads[uri];
+}
+
+/**
+ * Runs the effects of an array in order, like `sequence`, for the type
+ * constructor registered under a URI.
+ * @param uri Name of the type constructor in `URItoKind`.
+ *
+ * @example
+ * sequenceOf("Option")([Option.pure(1), Option.pure(2)]); // Some([1, 2])
+ */
+export function sequenceOf<U extends URIS>(
+  uri: U,
+): <A, E>(values: KindOf<U, A, E>[]) => KindOf<U, A[], E> {
+  return sequence(getMonad(uri));
+}
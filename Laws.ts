@@ -0,0 +1,199 @@
+import Arbitrary, {
+  CheckOptions,
+  check,
+  func,
+  integer,
+  tuple,
+} from "./Arbitrary";
+import Eq, { DefaultEq } from "./Eq";
+import HKT, { Kind } from "./HKT";
+import Monoid, { Semigroup } from "./Monoid";
+import { Functor, Monad } from "./Typeclass";
+
+/**
+ * Builds the arbitrary of a type constructor applied to any type, such as
+ * `optionOf`, or `(value) => eitherOf(string, value)`.
+ */
+export type ArbitraryOf<F extends HKT> = <A>(
+  value: Arbitrary<A>,
+) => Arbitrary<Kind<F, A, unknown>>;
+
+const identity = <A>(value: A): A => value;
+
+/**
+ * Checks that an equality is reflexive, symmetric and transitive.
+ * Transitivity is only checked for the values found equal by chance, so
+ * values should often be equal, e.g. from a small range.
+ *
+ * @param eq The equality to check.
+ * @param arbitrary Arbitrary of the compared values.
+ * @param options Options of `check`.
+ */
+export function checkEqLaws<A>(
+  eq: Eq<A>,
+  arbitrary: Arbitrary<A>,
+  options: CheckOptions = {},
+): void {
+  check(arbitrary, (x) => eq.equals(x, x), {
+    ...options,
+    label: "Eq reflexivity",
+  });
+  check(
+    tuple(arbitrary, arbitrary),
+    ([x, y]) => eq.equals(x, y) === eq.equals(y, x),
+    { ...options, label: "Eq symmetry" },
+  );
+  check(
+    tuple(arbitrary, arbitrary, arbitrary),
+    ([x, y, z]) => !(eq.equals(x, y) && eq.equals(y, z)) || eq.equals(x, z),
+    { ...options, label: "Eq transitivity" },
+  );
+}
+
+/**
+ * Checks that a semigroup combines associatively.
+ *
+ * @param semigroup The semigroup to check.
+ * @param arbitrary Arbitrary of the combined values.
+ * @param eq Equality of the values, `DefaultEq` by default.
+ * @param options Options of `check`.
+ */
+export function checkSemigroupLaws<A>(
+  semigroup: Semigroup<A>,
+  arbitrary: Arbitrary<A>,
+  eq: Eq<A> = DefaultEq,
+  options: CheckOptions = {},
+): void {
+  const { combine } = semigroup;
+  check(
+    tuple(arbitrary, arbitrary, arbitrary),
+    ([x, y, z]) =>
+      eq.equals(combine(combine(x, y), z), combine(x, combine(y, z))),
+    { ...options, label: "Semigroup associativity" },
+  );
+}
+
+/**
+ * Checks that a monoid combines associatively, and that its `pure` is
+ * neutral on both sides.
+ *
+ * @param monoid The monoid to check.
+ * @param arbitrary Arbitrary of the combined values.
+ * @param eq Equality of the values, `DefaultEq` by default, which compares
+ * arrays by reference: use `ArrayEq` for them.
+ * @param options Options of `check`.
+ *
+ * @example
+ * checkMonoidLaws(SumMonoid, integer());
+ * checkMonoidLaws(ListMonoid<string>(), array(string), ArrayEq(DefaultEq));
+ */
+export function checkMonoidLaws<A>(
+  monoid: Monoid<A>,
+  arbitrary: Arbitrary<A>,
+  eq: Eq<A> = DefaultEq,
+  options: CheckOptions = {},
+): void {
+  checkSemigroupLaws(monoid, arbitrary, eq, options);
+  check(arbitrary, (x) => eq.equals(monoid.combine(monoid.pure, x), x), {
+    ...options,
+    label: "Monoid left identity",
+  });
+  check(arbitrary, (x) => eq.equals(monoid.combine(x, monoid.pure), x), {
+    ...options,
+    label: "Monoid right identity",
+  });
+}
+
+/**
+ * Checks that mapping the identity changes nothing, and that mapping two
+ * functions one after the other is mapping their composition.
+ *
+ * @param F The functor instance to check, from Instances.ts.
+ * @param arbitrary Builds the arbitrary of the type constructor.
+ * @param eq Equality of the type constructor applied to numbers.
+ * @param options Options of `check`.
+ */
+export function checkFunctorLaws<F extends HKT>(
+  F: Functor<F>,
+  arbitrary: ArbitraryOf<F>,
+  eq: Eq<Kind<F, number, unknown>>,
+  options: CheckOptions = {},
+): void {
+  const fa = arbitrary(integer());
+  const f = func<number, number>(integer());
+
+  check(fa, (x) => eq.equals(F.map(x, identity), x), {
+    ...options,
+    label: "Functor identity",
+  });
+  check(
+    tuple(fa, f, f),
+    ([x, g, h]) =>
+      eq.equals(
+        F.map(F.map(x, g), h),
+        F.map(x, (value) => h(g(value))),
+      ),
+    { ...options, label: "Functor composition" },
+  );
+}
+
+/**
+ * Checks the laws of a monad: the functor laws, left and right identity of
+ * `of`, associativity of `bind`, and that `map` and `ap` agree with `bind`.
+ *
+ * @param M The monad instance to check, from Instances.ts.
+ * @param arbitrary Builds the arbitrary of the type constructor.
+ * @param eq Equality of the type constructor applied to numbers.
+ * @param options Options of `check`.
+ *
+ * @example
+ * checkMonadLaws(OptionMonad, optionOf, Option.getEq(DefaultEq));
+ */
+export function checkMonadLaws<F extends HKT>(
+  M: Monad<F>,
+  arbitrary: ArbitraryOf<F>,
+  eq: Eq<Kind<F, number, unknown>>,
+  options: CheckOptions = {},
+): void {
+  checkFunctorLaws(M, arbitrary, eq, options);
+
+  const fa = arbitrary(integer());
+  const f = func<number, number>(integer());
+  const k = func<number, Kind<F, number, unknown>>(arbitrary(integer()));
+
+  check(tuple(integer(), k), ([x, g]) => eq.equals(M.bind(M.of(x), g), g(x)), {
+    ...options,
+    label: "Monad left identity",
+  });
+  check(fa, (x) => eq.equals(M.bind(x, M.of), x), {
+    ...options,
+    label: "Monad right identity",
+  });
+  check(
+    tuple(fa, k, k),
+    ([x, g, h]) =>
+      eq.equals(
+        M.bind(M.bind(x, g), h),
+        M.bind(x, (value) => M.bind(g(value), h)),
+      ),
+    { ...options, label: "Monad associativity" },
+  );
+  check(
+    tuple(fa, f),
+    ([x, g]) =>
+      eq.equals(
+        M.map(x, g),
+        M.bind(x, (value) => M.of(g(value))),
+      ),
+    { ...options, label: "Monad map consistency" },
+  );
+  check(
+    tuple(arbitrary(f), fa),
+    ([fg, x]) =>
+      eq.equals(
+        M.ap(fg, x),
+        M.bind(fg, (g) => M.map(x, g)),
+      ),
+    { ...options, label: "Monad ap consistency" },
+  );
+}
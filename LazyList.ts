@@ -0,0 +1,295 @@
+import List from "./List";
+import { genReplay } from "./Do";
+import Monad from "./Monad";
+
+/**
+ * A lazy, possibly infinite list: every `LazyList` is either a `Cons` of a head
+ * and a deferred tail, or `Nil`.
+ *
+ * Tails are only computed when they are needed, and each tail is computed at
+ * most once. This allows infinite sequences such as `LazyList.iterate` or
+ * `LazyList.repeat` to be described and then cut with `take` or `takeWhile`.
+ *
+ * @template T - Type of the elements.
+ */
+export default abstract class LazyList<T>
+  implements Monad<T, LazyList<T>>, Iterable<T>
+{
+  abstract isEmpty(): boolean;
+  abstract match<D>(cond: {
+    ifCons: (head: T, tail: () => LazyList<T>) => D;
+    ifNil: () => D;
+  }): D;
+
+  /**
+   * Iterates over the elements of the list, forcing tails as it goes.
+   * Never ends for an infinite list, unless the loop is exited.
+   */
+  abstract [Symbol.iterator](): Iterator<T>;
+
+  /**
+   * Lazily applies a function producing a list to every element and
+   * concatenates the results.
+   * @param func Function to apply to each element.
+   */
+  bind<D>(func: (value: T) => LazyList<D>): LazyList<D> {
+    let current: LazyList<T> = this;
+    while (true) {
+      const step = uncons(current);
+      if (step === undefined) return Nil.get<D>();
+
+      const [head, tail] = step;
+      const inner = func(head);
+      // Skip empty results in a loop instead of recursing through them
+      if (!inner.isEmpty()) return inner.concat(() => tail().bind(func));
+      current = tail();
+    }
+  }
+
+  /**
+   * Lazily applies a function to every element.
+   * @param func Function to apply to each element.
+   */
+  map<D>(func: (value: T) => D): LazyList<D> {
+    return this.match<LazyList<D>>({
+      ifCons: (head, tail) => new Cons(func(head), () => tail().map(func)),
+      ifNil: () => Nil.get<D>(),
+    });
+  }
+
+  /**
+   * Lazily keeps the elements satisfying a predicate.
+   * @param func Predicate to test each element with.
+   */
+  filter(func: (value: T) => boolean): LazyList<T> {
+    let current: LazyList<T> = this;
+    while (true) {
+      const step = uncons(current);
+      if (step === undefined) return Nil.get<T>();
+
+      const [head, tail] = step;
+      if (func(head)) return new Cons(head, () => tail().filter(func));
+      current = tail();
+    }
+  }
+
+  /**
+   * Lazily appends another list after this one.
+   * @param other Thunk producing the list to append, forced only when reached.
+   */
+  concat(other: () => LazyList<T>): LazyList<T> {
+    return this.match({
+      ifCons: (head, tail) => new Cons(head, () => tail().concat(other)),
+      ifNil: other,
+    });
+  }
+
+  /**
+   * Keeps at most the first `count` elements.
+   * @param count Number of elements to keep.
+   */
+  take(count: number): LazyList<T> {
+    if (count <= 0) return Nil.get<T>();
+    return this.match<LazyList<T>>({
+      ifCons: (head, tail) =>
+        new Cons(head, () => (count > 1 ? tail().take(count - 1) : Nil.get())),
+      ifNil: () => this,
+    });
+  }
+
+  /**
+   * Keeps the elements up to the first one failing a predicate.
+   * @param func Predicate to test each element with.
+   */
+  takeWhile(func: (value: T) => boolean): LazyList<T> {
+    return this.match<LazyList<T>>({
+      ifCons: (head, tail) =>
+        func(head)
+          ? new Cons(head, () => tail().takeWhile(func))
+          : Nil.get<T>(),
+      ifNil: () => this,
+    });
+  }
+
+  /**
+   * Skips the first `count` elements.
+   * @param count Number of elements to skip.
+   */
+  drop(count: number): LazyList<T> {
+    let current: LazyList<T> = this;
+    for (let i = 0; i < count; i++) {
+      const step = uncons(current);
+      if (step === undefined) break;
+      current = step[1]();
+    }
+    return current;
+  }
+
+  /**
+   * Folds the list from the head to the last element.
+   * Never returns for an infinite list.
+   * @param seed Initial value of the accumulator.
+   */
+  foldLeft<D>(seed: D): (func: (acc: D, head: T) => D) => D {
+    return (func) => {
+      let acc = seed;
+      for (const value of this) acc = func(acc, value);
+      return acc;
+    };
+  }
+
+  /**
+   * Runs a side effect for every element.
+   * Never returns for an infinite list.
+   * @param func Function to run on each element.
+   */
+  foreach(func: (value: T) => void): void {
+    for (const value of this) func(value);
+  }
+
+  /**
+   * Forces the whole list into an array.
+   * Never returns for an infinite list.
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Forces the whole list into a strict `List`.
+   * Never returns for an infinite list.
+   */
+  toList(): List<T> {
+    return List.fromIterable(this);
+  }
+
+  /**
+   * Yields this list inside `LazyList.gen`, evaluating to each of its elements in turn.
+   */
+  *each(): Generator<LazyList<T>, T, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for `LazyList`, replaying the generator for every element
+   * like `List.gen`. The generator must be free of side effects.
+   * @param body Generator function describing the computation.
+   */
+  static gen<A>(body: () => Generator<LazyList<any>, A, any>): LazyList<A> {
+    return genReplay(body, (value: A) => LazyList.of(value));
+  }
+
+  static of<T>(...args: T[]): LazyList<T> {
+    return LazyList.fromIterable(args);
+  }
+
+  /**
+   * Builds a lazy list pulling its elements from an iterable on demand.
+   * The iterable is iterated once; its first element is pulled immediately.
+   * @param iterable Source of the elements.
+   */
+  static fromIterable<T>(iterable: Iterable<T>): LazyList<T> {
+    const iterator = iterable[Symbol.iterator]();
+    const next = (): LazyList<T> => {
+      const result = iterator.next();
+      return result.done ? Nil.get<T>() : new Cons(result.value, next);
+    };
+    return next();
+  }
+
+  /**
+   * Builds the infinite list `seed, func(seed), func(func(seed)), ...`.
+   * @param seed First element.
+   * @param func Function computing each element from the previous one.
+   */
+  static iterate<T>(seed: T, func: (value: T) => T): LazyList<T> {
+    return new Cons(seed, () => LazyList.iterate(func(seed), func));
+  }
+
+  /**
+   * Builds the list of numbers from `start` up to, but excluding, `end`.
+   * Without `end`, the list is infinite.
+   * @param start First number.
+   * @param end Bound that is never reached.
+   * @param step Difference between consecutive numbers, may be negative.
+   */
+  static range(
+    start: number,
+    end?: number,
+    step: number = 1,
+  ): LazyList<number> {
+    const numbers = LazyList.iterate(start, (value) => value + step);
+    if (end === undefined) return numbers;
+    return numbers.takeWhile((value) => (step > 0 ? value < end : value > end));
+  }
+
+  /**
+   * Builds the infinite list repeating a single value.
+   * @param value Value to repeat.
+   */
+  static repeat<T>(value: T): LazyList<T> {
+    const list: LazyList<T> = new Cons(value, () => list);
+    return list;
+  }
+}
+
+export class Cons<T> extends LazyList<T> {
+  private forced?: LazyList<T>;
+
+  constructor(
+    private first: T,
+    private rest: () => LazyList<T>,
+  ) {
+    super();
+  }
+
+  isEmpty(): boolean {
+    return false;
+  }
+  match<D>({ ifCons }: { ifCons: (head: T, tail: () => LazyList<T>) => D }): D {
+    return ifCons(this.first, () => this.tail());
+  }
+  *[Symbol.iterator](): Iterator<T> {
+    let current: LazyList<T> = this;
+    while (current instanceof Cons) {
+      yield current.first;
+      current = current.tail();
+    }
+  }
+
+  /**
+   * Computes the tail on first access and remembers it.
+   */
+  private tail(): LazyList<T> {
+    if (this.forced === undefined) this.forced = this.rest();
+    return this.forced;
+  }
+}
+
+export class Nil<T> extends LazyList<T> {
+  static instance = new Nil<any>();
+  private constructor() {
+    super();
+  }
+  static get<T>(): Nil<T> {
+    return Nil.instance;
+  }
+
+  isEmpty(): boolean {
+    return true;
+  }
+  match<D>({ ifNil }: { ifNil: () => D }): D {
+    return ifNil();
+  }
+  *[Symbol.iterator](): Iterator<T> {}
+}
+
+/**
+ * Splits a lazy list into its head and deferred tail, or `undefined` if it is empty.
+ */
+function uncons<T>(list: LazyList<T>): [T, () => LazyList<T>] | undefined {
+  return list.match<[T, () => LazyList<T>] | undefined>({
+    ifCons: (head, tail) => [head, tail],
+    ifNil: () => undefined,
+  });
+}
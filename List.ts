@@ -1,68 +1,492 @@
+import { genReplay } from "./Do";
+import { Decoder, array, field, tagged } from "./Decoder";
+import Eq, { DefaultEq, StrictEq } from "./Eq";
+import { combineHash, hash } from "./Hash";
 import Monad from "./Monad";
+import Monoid from "./Monoid";
+import Option, { None } from "./Option";
+import Ord from "./Ord";
 
-export default abstract class List<T> implements Monad<T, List<T>> {
-  abstract bind<D>(func: (value: T) => List<D>): List<D>;
-  abstract map<D>(func: (value: T) => D): List<D>;
-  abstract filter(func: (value: T) => boolean): List<T>;
-  abstract foldLeft<D>(seed: D): (func: (acc: D, head: T) => D) => D;
-  abstract foldRight<D>(seed: D): (func: (acc: D, head: T) => D) => D;
+/**
+ * The JSON format of a `List`.
+ */
+export type ListJSON<T> = { _tag: "List"; values: T[] };
+
+/**
+ * An immutable singly linked list: every `List` is either a `Pair` of a head
+ * and a tail, or `Empty`.
+ *
+ * All operations walk the list with loops rather than recursion, so lists of
+ * any length can be built and transformed without overflowing the stack.
+ *
+ * @template T - Type of the elements.
+ */
+export default abstract class List<T>
+  implements Monad<T, List<T>>, Iterable<T>
+{
   abstract isEmpty(): boolean;
   abstract match<D>(cond: {
     ifPair: (head: T, tail: List<T>) => D;
     ifEmpty: () => D;
   }): D;
-  abstract foreach(func: (value: T) => void): void;
 
-  static of<T>(...args: T[]): List<T> {
-    function build_list(args: T[]): List<T> {
-      if (args.length == 0) return Empty.get<T>();
-      return new Pair(args[0], build_list(args.slice(1)));
+  /**
+   * Iterates over the elements of the list, from head to last.
+   */
+  abstract [Symbol.iterator](): Iterator<T>;
+
+  /**
+   * Applies a function producing a list to every element and concatenates the results.
+   * @param func Function to apply to each element.
+   */
+  bind<D>(func: (value: T) => List<D>): List<D> {
+    const result: D[] = [];
+    for (const value of this)
+      for (const inner of func(value)) result.push(inner);
+    return List.fromIterable(result);
+  }
+
+  /**
+   * Applies a function to every element.
+   * @param func Function to apply to each element.
+   */
+  map<D>(func: (value: T) => D): List<D> {
+    const result: D[] = [];
+    for (const value of this) result.push(func(value));
+    return List.fromIterable(result);
+  }
+
+  /**
+   * Keeps the elements satisfying a predicate.
+   * @param func Predicate to test each element with.
+   */
+  filter(func: (value: T) => boolean): List<T> {
+    const result: T[] = [];
+    for (const value of this) if (func(value)) result.push(value);
+    return List.fromIterable(result);
+  }
+
+  /**
+   * Folds the list from the head to the last element.
+   * @param seed Initial value of the accumulator.
+   */
+  foldLeft<D>(seed: D): (func: (acc: D, head: T) => D) => D {
+    return (func) => {
+      let acc = seed;
+      for (const value of this) acc = func(acc, value);
+      return acc;
+    };
+  }
+
+  /**
+   * Folds the list from the last element to the head.
+   * @param seed Initial value of the accumulator.
+   */
+  foldRight<D>(seed: D): (func: (acc: D, head: T) => D) => D {
+    return (func) => {
+      const values = this.toArray();
+      let acc = seed;
+      for (let i = values.length - 1; i >= 0; i--) acc = func(acc, values[i]);
+      return acc;
+    };
+  }
+
+  /**
+   * Combines all elements with a monoid, from the head to the last element.
+   * @param monoid Monoid of the elements.
+   */
+  fold(monoid: Monoid<T>): T {
+    return this.foldLeft(monoid.pure)((acc, value) =>
+      monoid.combine(acc, value),
+    );
+  }
+
+  /**
+   * Maps every element into a monoid, and combines the results.
+   * @param monoid Monoid of the results.
+   * @param func Function to apply to each element.
+   */
+  foldMap<D>(monoid: Monoid<D>, func: (value: T) => D): D {
+    return this.foldLeft(monoid.pure)((acc, value) =>
+      monoid.combine(acc, func(value)),
+    );
+  }
+
+  /**
+   * Runs a side effect for every element.
+   * @param func Function to run on each element.
+   */
+  foreach(func: (value: T) => void): void {
+    for (const value of this) func(value);
+  }
+
+  /**
+   * Copies the elements of the list into an array.
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Returns the first element, or `None` if the list is empty.
+   */
+  head(): Option<T> {
+    return this.match({
+      ifPair: (head) => Option.pure(head),
+      ifEmpty: () => None.get<T>(),
+    });
+  }
+
+  /**
+   * Returns the list without its first element, or `None` if the list is empty.
+   */
+  tail(): Option<List<T>> {
+    return this.match({
+      ifPair: (_head, tail) => Option.pure(tail),
+      ifEmpty: () => None.get<List<T>>(),
+    });
+  }
+
+  /**
+   * Returns the first element satisfying a predicate, if any.
+   * @param func Predicate to test each element with.
+   */
+  find(func: (value: T) => boolean): Option<T> {
+    for (const value of this) if (func(value)) return Option.pure(value);
+    return None.get<T>();
+  }
+
+  /**
+   * Returns the position of the first element equal to a value, if any.
+   * @param search Value to look for.
+   * @param eq Element equality, strict equality by default.
+   */
+  indexOf(search: T, eq: Eq<T> = StrictEq): Option<number> {
+    let index = 0;
+    for (const value of this) {
+      if (eq.equals(value, search)) return Option.pure(index);
+      index++;
     }
+    return None.get<number>();
+  }
 
-    return build_list(args);
+  /**
+   * Counts the elements of the list.
+   */
+  length(): number {
+    let count = 0;
+    for (const _value of this) count++;
+    return count;
   }
-}
 
-export class Pair<T> extends List<T> {
-  constructor(
-    private head: T,
-    private tail: List<T>,
-  ) {
-    super();
+  /**
+   * Returns the elements in the opposite order.
+   */
+  reverse(): List<T> {
+    let list: List<T> = Empty.get<T>();
+    for (const value of this) list = new Pair(value, list);
+    return list;
   }
 
-  bind<D>(func: (value: T) => List<D>): List<D> {
-    const concat = <D>(l1: List<D>, l2: List<D>): List<D> =>
-      l1.match({
-        ifEmpty: () => l2,
-        ifPair: (head, tail) => new Pair(head, concat(tail, l2)),
+  /**
+   * Adds an element after the last one.
+   * @param value Element to add.
+   */
+  append(value: T): List<T> {
+    return this.concat(List.of(value));
+  }
+
+  /**
+   * Adds the elements of another list after the last one.
+   * The other list is shared, not copied.
+   * @param other List to add.
+   */
+  concat(other: List<T>): List<T> {
+    const values = this.toArray();
+    let list = other;
+    for (let i = values.length - 1; i >= 0; i--)
+      list = new Pair(values[i], list);
+    return list;
+  }
+
+  /**
+   * Keeps at most the first `count` elements.
+   * @param count Number of elements to keep.
+   */
+  take(count: number): List<T> {
+    return this.splitAt(count)[0];
+  }
+
+  /**
+   * Skips the first `count` elements. The remaining list is shared, not copied.
+   * @param count Number of elements to skip.
+   */
+  drop(count: number): List<T> {
+    let current: List<T> = this;
+    for (let i = 0; i < count && !current.isEmpty(); i++)
+      current = current.match({
+        ifPair: (_head, tail) => tail,
+        ifEmpty: () => current,
       });
+    return current;
+  }
 
-    return concat(func(this.head), this.tail.bind(func));
+  /**
+   * Splits the list into its first `count` elements and the rest.
+   * @param count Number of elements in the first list.
+   */
+  splitAt(count: number): [List<T>, List<T>] {
+    const prefix: T[] = [];
+    let current: List<T> = this;
+    while (prefix.length < count && !current.isEmpty())
+      current = current.match({
+        ifPair: (head, tail) => {
+          prefix.push(head);
+          return tail;
+        },
+        ifEmpty: () => current,
+      });
+    return [List.fromIterable(prefix), current];
   }
-  map<D>(func: (value: T) => D): List<D> {
-    return new Pair(func(this.head), this.tail.map(func));
+
+  /**
+   * Pairs up the elements of two lists, stopping at the end of the shorter one.
+   * @param other List to pair with.
+   */
+  zip<U>(other: List<U>): List<[T, U]> {
+    return this.zipWith(other, (a, b): [T, U] => [a, b]);
   }
-  filter(func: (value: T) => boolean): List<T> {
-    return func(this.head)
-      ? new Pair(this.head, this.tail.filter(func))
-      : this.tail.filter(func);
+
+  /**
+   * Combines the elements of two lists pairwise, stopping at the end of the shorter one.
+   * @param other List to combine with.
+   * @param func Function combining two elements.
+   */
+  zipWith<U, D>(other: List<U>, func: (a: T, b: U) => D): List<D> {
+    const result: D[] = [];
+    const iterator = other[Symbol.iterator]();
+    for (const value of this) {
+      const next = iterator.next();
+      if (next.done) break;
+      result.push(func(value, next.value));
+    }
+    return List.fromIterable(result);
   }
-  foldLeft<D>(seed: D): (func: (acc: D, head: T) => D) => D {
-    return (func) => this.tail.foldLeft(func(seed, this.head))(func);
+
+  /**
+   * Splits a list of pairs into a pair of lists.
+   */
+  unzip<A, B>(this: List<[A, B]>): [List<A>, List<B>] {
+    const first: A[] = [];
+    const second: B[] = [];
+    for (const [a, b] of this) {
+      first.push(a);
+      second.push(b);
+    }
+    return [List.fromIterable(first), List.fromIterable(second)];
   }
-  foldRight<D>(seed: D): (func: (acc: D, head: T) => D) => D {
-    return (func) => func(this.tail.foldRight(seed)(func), this.head);
+
+  /**
+   * Sorts the elements with a comparator. The sort is stable.
+   * @param compare Returns a negative number if `a` comes before `b`,
+   * a positive number if it comes after, and zero if they are equivalent.
+   */
+  sortBy(compare: (a: T, b: T) => number): List<T> {
+    return List.fromIterable(this.toArray().sort(compare));
+  }
+
+  /**
+   * Sorts the elements with an `Ord` instance. The sort is stable.
+   * @param ord Order of the elements.
+   */
+  sort(ord: Ord<T>): List<T> {
+    return this.sortBy(ord.compare);
+  }
+
+  /**
+   * Groups the elements by a key, keeping the order of both keys and elements.
+   * @param func Function computing the key of each element.
+   */
+  groupBy<K>(func: (value: T) => K): Map<K, List<T>> {
+    const groups = new Map<K, T[]>();
+    for (const value of this) {
+      const key = func(value);
+      const group = groups.get(key);
+      if (group === undefined) groups.set(key, [value]);
+      else group.push(value);
+    }
+
+    const result = new Map<K, List<T>>();
+    groups.forEach((group, key) => result.set(key, List.fromIterable(group)));
+    return result;
+  }
+
+  /**
+   * Splits the list into the elements satisfying a predicate and the others.
+   * @param func Predicate to test each element with.
+   */
+  partition(func: (value: T) => boolean): [List<T>, List<T>] {
+    const accepted: T[] = [];
+    const rejected: T[] = [];
+    for (const value of this) (func(value) ? accepted : rejected).push(value);
+    return [List.fromIterable(accepted), List.fromIterable(rejected)];
+  }
+
+  /**
+   * Removes repeated elements, keeping the first occurrence of each.
+   * Without an `Eq` instance, elements are compared with `SameValueZero`, like
+   * in a `Set`. With one, every element is compared with the kept ones, which
+   * takes quadratic time.
+   * @param eq Element equality.
+   */
+  distinct(eq?: Eq<T>): List<T> {
+    if (eq === undefined) return List.fromIterable(new Set(this));
+
+    const kept: T[] = [];
+    for (const value of this)
+      if (!kept.some((other) => eq.equals(other, value))) kept.push(value);
+    return List.fromIterable(kept);
   }
+
+  /**
+   * Checks whether two lists hold equal elements in the same order.
+   * @param other List to compare with.
+   * @param eq Element equality, `DefaultEq` by default.
+   */
+  equals(other: List<T>, eq: Eq<T> = DefaultEq): boolean {
+    const iterator = other[Symbol.iterator]();
+    for (const value of this) {
+      const next = iterator.next();
+      if (next.done || !eq.equals(value, next.value)) return false;
+    }
+    return iterator.next().done === true;
+  }
+
+  /**
+   * Hashes the list, consistently with `equals` and `DefaultEq`.
+   */
+  hashCode(): number {
+    return this.foldLeft(hash("List"))((acc, value) =>
+      combineHash(acc, hash(value)),
+    );
+  }
+
+  /**
+   * Lifts an equality of elements to an equality of lists.
+   * @param eq Element equality.
+   */
+  static getEq<T>(eq: Eq<T>): Eq<List<T>> {
+    return { equals: (x, y) => x.equals(y, eq) };
+  }
+
+  /**
+   * Lifts an order of elements to the lexicographic order of lists:
+   * element by element, then shorter first.
+   * @param ord Order of the elements.
+   */
+  static getOrd<T>(ord: Ord<T>): Ord<List<T>> {
+    return {
+      equals: (x, y) => x.equals(y, ord),
+      compare: (x, y) => {
+        const iterator = y[Symbol.iterator]();
+        for (const value of x) {
+          const next = iterator.next();
+          if (next.done) return 1;
+          const ordering = ord.compare(value, next.value);
+          if (ordering !== 0) return ordering;
+        }
+        return iterator.next().done ? 0 : -1;
+      },
+    };
+  }
+
+  /**
+   * Yields this list inside `List.gen`, evaluating to each of its elements in turn.
+   *
+   * The list's own iterator walks its elements, so `yield*` must go through
+   * this method rather than the list itself.
+   */
+  *each(): Generator<List<T>, T, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for `List`: runs a generator where `yield* list.each()` binds
+   * each element of the list in turn, like a list comprehension.
+   *
+   * The generator is replayed for every element, so it must be free of side effects.
+   * @param body Generator function describing the computation.
+   *
+   * @example
+   * List.gen(function* () {
+   *   const x = yield* List.of(1, 2).each();
+   *   const y = yield* List.of("a", "b").each();
+   *   return `${x}${y}`;
+   * }); // 1a, 1b, 2a, 2b
+   */
+  static gen<A>(body: () => Generator<List<any>, A, any>): List<A> {
+    return genReplay(body, (value: A) => List.of(value));
+  }
+
+  /**
+   * Converts to the tagged JSON format, called by `JSON.stringify`.
+   * The elements are written as an array, in order.
+   * @returns `{ _tag: "List", values }`.
+   */
+  toJSON(): ListJSON<T> {
+    return { _tag: "List", values: this.toArray() };
+  }
+
+  /**
+   * Builds a decoder of lists written by `toJSON`.
+   * @param decodeT Decoder of the elements.
+   */
+  static fromJSON<T>(decodeT: Decoder<T>): Decoder<List<T>> {
+    return tagged<List<T>>("a List", {
+      List: (input) =>
+        field(input, "values", array(decodeT)).map((values) =>
+          List.fromIterable(values),
+        ),
+    });
+  }
+
+  static of<T>(...args: T[]): List<T> {
+    return List.fromIterable(args);
+  }
+
+  /**
+   * Builds a list holding the elements of an iterable, in the same order.
+   * @param iterable Elements of the list.
+   */
+  static fromIterable<T>(iterable: Iterable<T>): List<T> {
+    const values = Array.isArray(iterable) ? iterable : Array.from(iterable);
+    let list: List<T> = Empty.get<T>();
+    for (let i = values.length - 1; i >= 0; i--)
+      list = new Pair(values[i], list);
+    return list;
+  }
+}
+
+export class Pair<T> extends List<T> {
+  constructor(
+    private first: T,
+    private rest: List<T>,
+  ) {
+    super();
+  }
+
   isEmpty(): boolean {
     return false;
   }
   match<D>({ ifPair }: { ifPair: (head: T, tail: List<T>) => D }): D {
-    return ifPair(this.head, this.tail);
+    return ifPair(this.first, this.rest);
   }
-  foreach(func: (value: T) => void): void {
-    func(this.head);
-    this.tail.foreach(func);
+  *[Symbol.iterator](): Iterator<T> {
+    let current: List<T> = this;
+    while (current instanceof Pair) {
+      yield current.first;
+      current = current.rest;
+    }
   }
 }
 
@@ -75,27 +499,11 @@ export class Empty<T> extends List<T> {
     return Empty.instance;
   }
 
-  bind<D>(_func: (value: T) => List<D>): List<D> {
-    return Empty.get<D>();
-  }
-  map<D>(_func: (value: T) => D): List<D> {
-    return Empty.get<D>();
-  }
-  filter(_func: (value: T) => boolean): List<T> {
-    return this;
-  }
-  foldLeft<D>(seed: D): (func: (acc: D, head: T) => D) => D {
-    return (_func) => seed;
-  }
-  foldRight<D>(seed: D): (func: (acc: D, head: T) => D) => D {
-    return (_func) => seed;
-  }
   isEmpty(): boolean {
-    return false;
+    return true;
   }
-
   match<D>({ ifEmpty }: { ifEmpty: () => D }): D {
     return ifEmpty();
   }
-  foreach(_func: (value: T) => void): void {}
+  *[Symbol.iterator](): Iterator<T> {}
 }
@@ -0,0 +1,217 @@
+import { appendFileSync } from "fs";
+import IO from "./IO";
+import Monoid, { ListMonoid } from "./Monoid";
+import Ord, { NumberOrd, contramap } from "./Ord";
+import Writer from "./Writer";
+
+/**
+ * The severity of a log entry, from the least to the most severe.
+ */
+export type Level = "debug" | "info" | "warn" | "error";
+
+const severities: { [L in Level]: number } = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Orders levels by severity, `debug` first.
+ */
+export const LevelOrd: Ord<Level> = contramap(
+  NumberOrd,
+  (level: Level) => severities[level],
+);
+
+/**
+ * A structured log entry.
+ */
+export interface LogEntry {
+  readonly level: Level;
+  readonly message: string;
+  readonly fields: Readonly<Record<string, unknown>>;
+  readonly timestamp?: Date;
+}
+
+/**
+ * The log accumulated by a `Writer`, as entries in the order they were written.
+ */
+export type Log = LogEntry[];
+
+export const LogMonoid: Monoid<Log> = ListMonoid<LogEntry>();
+
+/**
+ * Builds Writers each holding a single log entry, one function per level.
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): Writer<Log, void>;
+  info(message: string, fields?: Record<string, unknown>): Writer<Log, void>;
+  warn(message: string, fields?: Record<string, unknown>): Writer<Log, void>;
+  error(message: string, fields?: Record<string, unknown>): Writer<Log, void>;
+}
+
+/**
+ * Builds a Logger, stamping entries with a clock if one is given.
+ * The clock is read when an entry is written, not when it is flushed.
+ *
+ * @param clock Source of the timestamps, e.g. `() => new Date()`.
+ * @returns The Logger.
+ *
+ * @example
+ * const { info } = makeLogger(() => new Date());
+ *
+ * const transfer = info("transfer started", { amount: 100 })
+ *   .bind(() => Writer.of(debit(100), LogMonoid))
+ *   .bind((balance) => info("transfer done", { balance }).map(() => balance));
+ */
+export function makeLogger(clock?: () => Date): Logger {
+  const write =
+    (level: Level) =>
+    (message: string, fields: Record<string, unknown> = {}) => {
+      const entry: LogEntry =
+        clock === undefined
+          ? { level, message, fields }
+          : { level, message, fields, timestamp: clock() };
+      return Writer.of<Log, void>(undefined, LogMonoid).tell([entry]);
+    };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/**
+ * Logger without timestamps.
+ */
+export const { debug, info, warn, error } = makeLogger();
+
+/**
+ * A destination for log entries. Writing is deferred in an `IO`.
+ */
+export interface Sink {
+  write(entries: Log): IO<void>;
+}
+
+/**
+ * Keeps the entries at least as severe as `level`.
+ */
+export function atLeast(level: Level): (entries: Log) => Log {
+  return (entries) =>
+    entries.filter((entry) => LevelOrd.compare(entry.level, level) >= 0);
+}
+
+/**
+ * Wraps a sink so that it only receives entries at least as severe as `level`.
+ *
+ * @param sink The sink to wrap.
+ * @param level The least severe level to write.
+ * @returns The filtering sink.
+ */
+export function filterLevel(sink: Sink, level: Level): Sink {
+  return { write: (entries) => sink.write(atLeast(level)(entries)) };
+}
+
+/**
+ * Formats an entry as a single line of JSON.
+ */
+export function toJSONLine(entry: LogEntry): string {
+  return JSON.stringify(entry);
+}
+
+/**
+ * Formats an entry as a human-readable line.
+ */
+export function format(entry: LogEntry): string {
+  const keys = Object.keys(entry.fields);
+  const fields = keys
+    .map((key) => `${key}=${JSON.stringify(entry.fields[key])}`)
+    .join(" ");
+  const timestamp =
+    entry.timestamp === undefined ? "" : `${entry.timestamp.toISOString()} `;
+  return `${timestamp}[${entry.level.toUpperCase()}] ${entry.message}${
+    keys.length > 0 ? ` ${fields}` : ""
+  }`;
+}
+
+/**
+ * Writes each entry to the console method matching its level.
+ */
+export const consoleSink: Sink = {
+  write: (entries) =>
+    IO.from(() => {
+      for (const entry of entries) console[entry.level](format(entry));
+    }),
+};
+
+/**
+ * Builds a sink appending each entry as a JSON line to an array.
+ *
+ * @param lines The array receiving the lines.
+ * @returns The sink.
+ */
+export function jsonLinesSink(lines: string[]): Sink {
+  return {
+    write: (entries) =>
+      IO.from(() => {
+        for (const entry of entries) lines.push(toJSONLine(entry));
+      }),
+  };
+}
+
+/**
+ * Builds a sink appending each entry as a JSON line to a file.
+ * The file is created if it does not exist.
+ *
+ * @param path Path of the file.
+ * @returns The sink.
+ */
+export function fileSink(path: string): Sink {
+  return {
+    write: (entries) =>
+      IO.from(() => {
+        if (entries.length > 0)
+          appendFileSync(path, entries.map(toJSONLine).join("\n") + "\n");
+      }),
+  };
+}
+
+/**
+ * A sink keeping the entries it receives, for tests.
+ */
+export interface CaptureSink extends Sink {
+  readonly entries: Log;
+}
+
+export function captureSink(): CaptureSink {
+  const entries: Log = [];
+  return {
+    entries,
+    write: (written) =>
+      IO.from(() => {
+        entries.push(...written);
+      }),
+  };
+}
+
+/**
+ * Writes the log of a Writer into sinks, one after the other, and produces its value.
+ * Nothing is written until the returned IO is run.
+ *
+ * @param writer The Writer whose log to flush.
+ * @param sinks The sinks to write to.
+ * @param level The least severe level to write, `debug` by default.
+ * @returns An IO writing the log and producing the value of the Writer.
+ */
+export function flush<A>(
+  writer: Writer<Log, A>,
+  sinks: Sink[],
+  level: Level = "debug",
+): IO<A> {
+  const [value, log] = writer.run();
+  const entries = atLeast(level)(log);
+  return IO.traverse(sinks, (sink) => sink.write(entries)).map(() => value);
+}
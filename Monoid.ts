@@ -1,5 +1,19 @@
-export default interface Monoid<A> {
+import Option, { isSome, None } from "./Option";
+import Ord, { max, min } from "./Ord";
+
+/**
+ * A type with an associative binary operation:
+ * `combine(x, combine(y, z))` equals `combine(combine(x, y), z)`.
+ */
+export interface Semigroup<A> {
   combine(x: A, y: A): A;
+}
+
+/**
+ * A semigroup with an identity element:
+ * `combine(pure, x)` and `combine(x, pure)` both equal `x`.
+ */
+export default interface Monoid<A> extends Semigroup<A> {
   pure: A;
 }
 
@@ -15,3 +29,240 @@ export function ListMonoid<T>(): Monoid<T[]> {
     combine: (x: T[], y: T[]): T[] => [...x, ...y],
   };
 }
+
+export const SumMonoid: Monoid<number> = {
+  combine: (x, y) => x + y,
+  pure: 0,
+};
+
+export const ProductMonoid: Monoid<number> = {
+  combine: (x, y) => x * y,
+  pure: 1,
+};
+
+/**
+ * Combines booleans with `&&`.
+ */
+export const AllMonoid: Monoid<boolean> = {
+  combine: (x, y) => x && y,
+  pure: true,
+};
+
+/**
+ * Combines booleans with `||`.
+ */
+export const AnyMonoid: Monoid<boolean> = {
+  combine: (x, y) => x || y,
+  pure: false,
+};
+
+export function MinSemigroup<A>(ord: Ord<A>): Semigroup<A> {
+  return { combine: min(ord) };
+}
+
+export function MaxSemigroup<A>(ord: Ord<A>): Semigroup<A> {
+  return { combine: max(ord) };
+}
+
+/**
+ * Keeps the smallest value.
+ * @param ord Order of the values.
+ * @param top Value greater than or equal to all others, such as `Infinity`.
+ */
+export function MinMonoid<A>(ord: Ord<A>, top: A): Monoid<A> {
+  return { combine: min(ord), pure: top };
+}
+
+/**
+ * Keeps the greatest value.
+ * @param ord Order of the values.
+ * @param bottom Value less than or equal to all others, such as `-Infinity`.
+ */
+export function MaxMonoid<A>(ord: Ord<A>, bottom: A): Monoid<A> {
+  return { combine: max(ord), pure: bottom };
+}
+
+/**
+ * Keeps the first `Some`.
+ */
+export function FirstMonoid<A>(): Monoid<Option<A>> {
+  return {
+    combine: (x, y) => (isSome(x) ? x : y),
+    pure: None.get<A>(),
+  };
+}
+
+/**
+ * Keeps the last `Some`.
+ */
+export function LastMonoid<A>(): Monoid<Option<A>> {
+  return {
+    combine: (x, y) => (isSome(y) ? y : x),
+    pure: None.get<A>(),
+  };
+}
+
+/**
+ * Lifts a semigroup to options, with `None` as identity:
+ * two `Some` values are combined, and `None` is ignored.
+ */
+export function OptionMonoid<A>(semigroup: Semigroup<A>): Monoid<Option<A>> {
+  return {
+    combine: (x, y) =>
+      x.match({
+        ifSome: (a) =>
+          y.match({
+            ifSome: (b) => Option.pure(semigroup.combine(a, b)),
+            ifNone: () => x,
+          }),
+        ifNone: () => y,
+      }),
+    pure: None.get<A>(),
+  };
+}
+
+/**
+ * Combines objects field by field, using one monoid per field.
+ */
+export function StructMonoid<A>(monoids: {
+  [K in keyof A]: Monoid<A[K]>;
+}): Monoid<A> {
+  const keys = Object.keys(monoids) as (keyof A)[];
+  const pure = {} as A;
+  keys.forEach((key) => (pure[key] = monoids[key].pure));
+  return {
+    combine: (x, y) => {
+      const result = {} as A;
+      keys.forEach(
+        (key) => (result[key] = monoids[key].combine(x[key], y[key])),
+      );
+      return result;
+    },
+    pure,
+  };
+}
+
+/**
+ * Combines tuples position by position, using one monoid per position.
+ */
+export function TupleMonoid<T extends unknown[]>(
+  ...monoids: { [K in keyof T]: Monoid<T[K]> }
+): Monoid<T> {
+  const all = monoids as Monoid<unknown>[];
+  return {
+    combine: (x, y) => all.map((monoid, i) => monoid.combine(x[i], y[i])) as T,
+    pure: all.map((monoid) => monoid.pure) as T,
+  };
+}
+
+/**
+ * Merges records, combining the values of keys present in both.
+ */
+export function RecordMonoid<A>(
+  semigroup: Semigroup<A>,
+): Monoid<Record<string, A>> {
+  return {
+    combine: (x, y) => {
+      const result: Record<string, A> = { ...x };
+      // Defined rather than assigned, so that a "__proto__" key stays a field
+      Object.keys(y).forEach((key) =>
+        Object.defineProperty(result, key, {
+          value: Object.prototype.hasOwnProperty.call(x, key)
+            ? semigroup.combine(x[key], y[key])
+            : y[key],
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        }),
+      );
+      return result;
+    },
+    pure: {},
+  };
+}
+
+/**
+ * Merges maps, combining the values of keys present in both.
+ */
+export function MapMonoid<K, V>(semigroup: Semigroup<V>): Monoid<Map<K, V>> {
+  return {
+    combine: (x, y) => {
+      const result = new Map(x);
+      y.forEach((value, key) => {
+        const existing = result.get(key);
+        result.set(
+          key,
+          result.has(key) ? semigroup.combine(existing as V, value) : value,
+        );
+      });
+      return result;
+    },
+    pure: new Map<K, V>(),
+  };
+}
+
+/**
+ * Composes functions from a type to itself, applying the left one first.
+ */
+export function EndoMonoid<A>(): Monoid<(value: A) => A> {
+  return {
+    combine: (f, g) => (value) => g(f(value)),
+    pure: (value) => value,
+  };
+}
+
+/**
+ * Combines functions pointwise, using a monoid on their results.
+ */
+export function FunctionMonoid<A, B>(
+  monoid: Monoid<B>,
+): Monoid<(value: A) => B> {
+  return {
+    combine: (f, g) => (value) => monoid.combine(f(value), g(value)),
+    pure: (_value) => monoid.pure,
+  };
+}
+
+/**
+ * Swaps the arguments of a semigroup or monoid.
+ */
+export function reverse<A>(semigroup: Monoid<A>): Monoid<A>;
+export function reverse<A>(semigroup: Semigroup<A>): Semigroup<A>;
+export function reverse<A>(semigroup: Semigroup<A>): Semigroup<A> {
+  return { ...semigroup, combine: (x, y) => semigroup.combine(y, x) };
+}
+
+/**
+ * Combines all values of an iterable with a semigroup, starting from `start`.
+ */
+export function concatAll<A>(
+  semigroup: Semigroup<A>,
+  start: A,
+): (values: Iterable<A>) => A {
+  return (values) => {
+    let acc = start;
+    for (const value of values) acc = semigroup.combine(acc, value);
+    return acc;
+  };
+}
+
+/**
+ * Combines all values of an iterable with a monoid, starting from its identity.
+ */
+export function fold<A>(monoid: Monoid<A>): (values: Iterable<A>) => A {
+  return concatAll(monoid, monoid.pure);
+}
+
+/**
+ * Maps all values of an iterable into a monoid, and combines them.
+ */
+export function foldMap<A, B>(
+  monoid: Monoid<B>,
+  func: (value: A) => B,
+): (values: Iterable<A>) => B {
+  return (values) => {
+    let acc = monoid.pure;
+    for (const value of values) acc = monoid.combine(acc, func(value));
+    return acc;
+  };
+}
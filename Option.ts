@@ -1,6 +1,18 @@
+import gen from "./Do";
+import Either from "./Either";
+import { Decoder, field, tagged } from "./Decoder";
+import Eq, { DefaultEq } from "./Eq";
+import { combineHash, hash } from "./Hash";
+import List from "./List";
 import Monad from "./Monad";
+import Ord from "./Ord";
 import util from "util";
 
+/**
+ * The JSON format of an `Option`.
+ */
+export type OptionJSON<A> = { _tag: "Some"; value: A } | { _tag: "None" };
+
 /**
  * Represents an optional value: every `Option` is either `Some` and contains a value,
  * or `None`, and does not. Inspired by functional programming idioms.
@@ -54,11 +66,183 @@ export default abstract class Option<A> implements Monad<A, Option<any>> {
 
   /**
    * Extracts the value from the `Option`, or returns the provided default.
-   * @param defaultValue Value to return if this is `None`.
+   * A function is called to compute the default, only if this is `None`, so an
+   * `Option` of functions must use `getOrElseGet` instead.
+   * @param defaultValue Value, or function computing the value, to return if this is `None`.
    * @returns The contained value or the default.
    */
-  getOrElse(defaultValue: A): A {
-    return this.match({ ifSome: (value) => value, ifNone: () => defaultValue });
+  getOrElse(defaultValue: A): A;
+  getOrElse(defaultValue: () => A): A;
+  getOrElse(defaultValue: A | (() => A)): A {
+    return this.match({
+      ifSome: (value) => value,
+      ifNone: () =>
+        typeof defaultValue === "function"
+          ? (defaultValue as () => A)()
+          : defaultValue,
+    });
+  }
+
+  /**
+   * Extracts the value from the `Option`, or computes a default. Unlike
+   * `getOrElse`, the result of the function is returned even if it is a
+   * function itself.
+   * @param func Function computing the value, only called if this is `None`.
+   * @returns The contained value or the computed default.
+   */
+  getOrElseGet(func: () => A): A {
+    return this.match({ ifSome: (value) => value, ifNone: func });
+  }
+
+  /**
+   * Extracts the value from the `Option`, or throws.
+   * @param error Error to throw if this is `None`.
+   * @returns The contained value.
+   */
+  getOrThrow(error: unknown = new Error("Option is None")): A {
+    return this.match({
+      ifSome: (value) => value,
+      ifNone: () => {
+        throw error;
+      },
+    });
+  }
+
+  /**
+   * Extracts the value from the `Option`, or returns `null`.
+   */
+  orNull(): A | null {
+    return this.match<A | null>({
+      ifSome: (value) => value,
+      ifNone: () => null,
+    });
+  }
+
+  /**
+   * Extracts the value from the `Option`, or returns `undefined`.
+   */
+  orUndefined(): A | undefined {
+    return this.match<A | undefined>({
+      ifSome: (value) => value,
+      ifNone: () => undefined,
+    });
+  }
+
+  /**
+   * Reduces the `Option` to a single value, like `match` with positional arms.
+   * @param onNone Function to call if this is `None`.
+   * @param onSome Function to apply to the value if `Some`.
+   */
+  fold<D>(onNone: () => D, onSome: (value: A) => D): D {
+    return this.match({ ifSome: onSome, ifNone: onNone });
+  }
+
+  /**
+   * Keeps the value only if it satisfies a predicate.
+   * A type guard narrows the type of the value.
+   * @param predicate Predicate the value must satisfy.
+   * @returns This `Option`, or `None`.
+   */
+  filter<B extends A>(predicate: (value: A) => value is B): Option<B>;
+  filter(predicate: (value: A) => boolean): Option<A>;
+  filter(predicate: (value: A) => boolean): Option<A> {
+    return this.bind((value) => (predicate(value) ? this : None.get<A>()));
+  }
+
+  /**
+   * Checks whether this is `Some` with a value satisfying a predicate.
+   * @param predicate Predicate to test the value with.
+   */
+  exists(predicate: (value: A) => boolean): boolean {
+    return this.match({ ifSome: predicate, ifNone: () => false });
+  }
+
+  /**
+   * Checks whether this is `None`, or `Some` with a value satisfying a predicate.
+   * @param predicate Predicate to test the value with.
+   */
+  forall(predicate: (value: A) => boolean): boolean {
+    return this.match({ ifSome: predicate, ifNone: () => true });
+  }
+
+  /**
+   * Checks whether this is `Some` with a value equal to the given one.
+   * @param value Value to look for.
+   * @param eq Equality of the values, `DefaultEq` by default.
+   */
+  contains(value: A, eq: Eq<A> = DefaultEq): boolean {
+    return this.exists((x) => eq.equals(x, value));
+  }
+
+  /**
+   * Pairs the values of two options.
+   * @param other Option holding the second value.
+   * @returns `Some` of both values, or `None` if either is `None`.
+   */
+  zip<B>(other: Option<B>): Option<[A, B]> {
+    return this.zipWith(other, (a, b): [A, B] => [a, b]);
+  }
+
+  /**
+   * Combines the values of two options with a function.
+   * @param other Option holding the second value.
+   * @param func Function combining both values.
+   * @returns `Some` of the result, or `None` if either is `None`.
+   */
+  zipWith<B, C>(other: Option<B>, func: (a: A, b: B) => C): Option<C> {
+    return this.bind((a) => other.map((b) => func(a, b)));
+  }
+
+  /**
+   * Removes one level of nesting from an `Option` of an `Option`.
+   */
+  flatten<B>(this: Option<Option<B>>): Option<B> {
+    return this.bind((inner) => inner);
+  }
+
+  /**
+   * Runs a side effect on the value if `Some`, and returns this `Option` unchanged.
+   * @param func Side effect to run.
+   */
+  tap(func: (value: A) => void): Option<A> {
+    this.match({ ifSome: func, ifNone: () => undefined });
+    return this;
+  }
+
+  /**
+   * Converts to an array of zero or one element.
+   */
+  toArray(): A[] {
+    return this.match({ ifSome: (value) => [value], ifNone: () => [] });
+  }
+
+  /**
+   * Converts to a `List` of zero or one element.
+   */
+  toList(): List<A> {
+    return this.match({
+      ifSome: (value) => List.of(value),
+      ifNone: () => List.of<A>(),
+    });
+  }
+
+  /**
+   * Converts to an `Either`, with the given Left value for `None`.
+   * @param left Value to use if this is `None`.
+   */
+  toEither<L>(left: L): Either<L, A> {
+    return Either.fromOption(this, left);
+  }
+
+  /**
+   * Converts to the tagged JSON format, called by `JSON.stringify`.
+   * @returns `{ _tag: "Some", value }` or `{ _tag: "None" }`.
+   */
+  toJSON(): OptionJSON<A> {
+    return this.match<OptionJSON<A>>({
+      ifSome: (value) => ({ _tag: "Some", value }),
+      ifNone: () => ({ _tag: "None" }),
+    });
   }
 
   /**
@@ -70,9 +254,200 @@ export default abstract class Option<A> implements Monad<A, Option<any>> {
     return this.match({ ifSome: (_value) => this, ifNone: fallback });
   }
 
+  /**
+   * Checks whether both options are `None`, or both are `Some` with equal values.
+   * @param other Option to compare with.
+   * @param eq Equality of the values, `DefaultEq` by default.
+   * @returns True if the options are equal.
+   */
+  equals(other: Option<A>, eq: Eq<A> = DefaultEq): boolean {
+    return this.match({
+      ifSome: (x) =>
+        other.match({ ifSome: (y) => eq.equals(x, y), ifNone: () => false }),
+      ifNone: () => isNone(other),
+    });
+  }
+
+  /**
+   * Hashes the `Option`, consistently with `equals` and `DefaultEq`.
+   * @returns A 32-bit hash.
+   */
+  hashCode(): number {
+    return this.match({
+      ifSome: (value) => combineHash(hash("Some"), hash(value)),
+      ifNone: () => hash("None"),
+    });
+  }
+
+  /**
+   * Lifts an equality of values to an equality of options.
+   * @param eq Equality of the values.
+   */
+  static getEq<A>(eq: Eq<A>): Eq<Option<A>> {
+    return { equals: (x, y) => x.equals(y, eq) };
+  }
+
+  /**
+   * Lifts an order of values to an order of options, where `None` comes first.
+   * @param ord Order of the values.
+   */
+  static getOrd<A>(ord: Ord<A>): Ord<Option<A>> {
+    return {
+      equals: (x, y) => x.equals(y, ord),
+      compare: (x, y) =>
+        x.match({
+          ifSome: (a) =>
+            y.match({ ifSome: (b) => ord.compare(a, b), ifNone: () => 1 }),
+          ifNone: () => (isNone(y) ? 0 : -1),
+        }),
+    };
+  }
+
   static fromNullable<A>(value: A | null | undefined): Option<A> {
     return value == null ? None.get<A>() : Option.pure(value);
   }
+
+  /**
+   * Computes a value only if a condition holds.
+   * @param condition Whether to compute the value.
+   * @param func Function computing the value.
+   * @returns `Some` of the value, or `None`.
+   */
+  static when<A>(condition: boolean, func: () => A): Option<A> {
+    return condition ? Option.pure(func()) : None.get<A>();
+  }
+
+  /**
+   * Builds a decoder of options written by `toJSON`.
+   * @param decodeA Decoder of the value.
+   *
+   * @example
+   * Option.fromJSON(number)(JSON.parse('{"_tag":"Some","value":1}')); // Right(Some(1))
+   */
+  static fromJSON<A>(decodeA: Decoder<A>): Decoder<Option<A>> {
+    return tagged<Option<A>>("an Option", {
+      Some: (input) => field(input, "value", decodeA).map(Option.pure),
+      None: () => Either.asRight(None.get<A>()),
+    });
+  }
+
+  /**
+   * Runs a function that may throw, with `None` if it does.
+   * @param thunk Function to run.
+   * @returns `Some` of the result, or `None`.
+   */
+  static tryCatch<A>(thunk: () => A): Option<A> {
+    try {
+      return Option.pure(thunk());
+    } catch (_error) {
+      return None.get<A>();
+    }
+  }
+
+  /**
+   * Yields this `Option` inside `Option.gen`, evaluating to the wrapped value.
+   */
+  *[Symbol.iterator](): Generator<Option<A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for `Option`: runs a generator where `yield*` unwraps an `Option`.
+   * The first `None` yielded stops the generator and is returned.
+   * @param body Generator function describing the computation.
+   * @returns `Some` of the returned value, or `None`.
+   *
+   * @example
+   * Option.gen(function* () {
+   *   const a = yield* Option.pure(1);
+   *   const b = yield* Option.fromNullable(lookup(a));
+   *   return a + b;
+   * });
+   */
+  static gen<A>(body: () => Generator<Option<any>, A, any>): Option<A> {
+    return gen(body, (value: A) => Option.pure(value));
+  }
+
+  /**
+   * Applies a function returning an `Option` to every element, collecting the results.
+   * Stops at the first `None`, without applying the function to the remaining elements.
+   * @param values Elements to traverse.
+   * @param func Function to apply to each element and its index.
+   * @returns `Some` of all the results in order, or `None`.
+   */
+  static traverse<A, B>(
+    values: Iterable<A>,
+    func: (value: A, index: number) => Option<B>,
+  ): Option<B[]> {
+    const result: B[] = [];
+    let index = 0;
+    for (const value of values) {
+      const step = func(value, index++).map((b) => {
+        result.push(b);
+        return result;
+      });
+      if (isNone(step)) return step;
+    }
+    return Option.pure(result);
+  }
+
+  /**
+   * Turns an array of `Option`s into an `Option` of an array.
+   * @param options Options to collect.
+   * @returns `Some` of all the values in order, or `None` if any is `None`.
+   */
+  static sequence<A>(options: Iterable<Option<A>>): Option<A[]> {
+    return Option.traverse(options, (option) => option);
+  }
+
+  /**
+   * Applies a function returning an `Option` to every field of a record.
+   * @param record Record to traverse.
+   * @param func Function to apply to each field and its key.
+   * @returns `Some` of a record with the same keys, or `None`.
+   */
+  static traverseRecord<K extends string, A, B>(
+    record: Record<K, A>,
+    func: (value: A, key: K) => Option<B>,
+  ): Option<Record<K, B>> {
+    const keys = Object.keys(record) as K[];
+    return Option.traverse(keys, (key) => func(record[key], key)).map(
+      (values) => {
+        const result = {} as Record<K, B>;
+        keys.forEach((key, index) => (result[key] = values[index]));
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Turns a record of `Option`s into an `Option` of a record.
+   * @param record Record of options, one per field of the result.
+   * @returns `Some` of the record of values, or `None` if any field is `None`.
+   */
+  static sequenceRecord<R extends Record<string, unknown>>(record: {
+    [K in keyof R]: Option<R[K]>;
+  }): Option<R> {
+    return Option.traverseRecord(
+      record as Record<string, Option<unknown>>,
+      (option) => option,
+    ) as Option<R>;
+  }
+
+  /**
+   * Applies a function returning an `Option` to every element of a `List`.
+   * @param list List to traverse.
+   * @param func Function to apply to each element and its index.
+   * @returns `Some` of the list of results, or `None`.
+   */
+  static traverseList<A, B>(
+    list: List<A>,
+    func: (value: A, index: number) => Option<B>,
+  ): Option<List<B>> {
+    return Option.traverse(list, func).map((values) =>
+      List.fromIterable(values),
+    );
+  }
 }
 
 /**
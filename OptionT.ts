@@ -0,0 +1,198 @@
+import HKT, { Kind } from "./HKT";
+import Monad from "./Monad";
+import Option, { None } from "./Option";
+import { Monad as MonadInstance } from "./Typeclass";
+
+/**
+ * The type constructor of `OptionT` over the effect `F`.
+ */
+export interface OptionTKind<F extends HKT> extends HKT {
+  readonly type: OptionT<F, this["A"]>;
+}
+
+/**
+ * Monad transformer adding optionality to an effect: an `OptionT<F, A>` wraps
+ * a `Kind<F, Option<A>>`, such as an `IO<Option<A>>`.
+ *
+ * Binding runs the effect and only continues if it produced `Some`, so a chain
+ * of effects that may produce nothing reads as one flat chain instead of nested
+ * `match` calls.
+ *
+ * @template F The type constructor of the underlying effect.
+ * @template A The type of the optional value.
+ *
+ * @example
+ * const user = OptionT.fromOption(IOMonad, lookupId(name))
+ *   .bind((id) => OptionT.lift(IOMonad, IO.from(() => db.find(id))))
+ *   .map((row) => row.user);
+ *
+ * user.run().runUnsafe(); // Option<User>
+ */
+export default class OptionT<F extends HKT, A> implements Monad<
+  A,
+  OptionT<F, A>
+> {
+  /**
+   * Constructs a new OptionT. Use `OptionT.of`, `OptionT.lift` or
+   * `OptionT.fromOption` instead.
+   * @param effect The instance of the underlying effect.
+   * @param value The wrapped effect producing an Option.
+   */
+  private constructor(
+    private effect: MonadInstance<F>,
+    private value: Kind<F, Option<A>>,
+  ) {}
+
+  /**
+   * Unwraps the underlying effect.
+   *
+   * @returns The effect producing an Option.
+   */
+  run(): Kind<F, Option<A>> {
+    return this.value;
+  }
+
+  /**
+   * Sequences a computation depending on the value, if there is one.
+   *
+   * @template B The type of the next value.
+   * @param func Function mapping a value to the next OptionT.
+   * @returns A new OptionT representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => OptionT<F, B>): OptionT<F, B> {
+    return new OptionT<F, B>(
+      this.effect,
+      this.effect.bind(this.value, (option: Option<A>) =>
+        option.match({
+          ifSome: (value) => func(value).value,
+          ifNone: () => this.effect.of(None.get<B>()),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Applies a pure function to the value, if there is one.
+   *
+   * @template B The type of the transformed value.
+   * @param func Function to transform the value.
+   * @returns A new OptionT containing the transformed value.
+   */
+  map<B>(func: (value: A) => B): OptionT<F, B> {
+    return new OptionT<F, B>(
+      this.effect,
+      this.effect.map(this.value, (option: Option<A>) => option.map(func)),
+    );
+  }
+
+  /**
+   * Falls back to another OptionT if this one produces `None`.
+   *
+   * @param fallback Function producing the fallback OptionT.
+   * @returns A new OptionT.
+   */
+  orElse(fallback: () => OptionT<F, A>): OptionT<F, A> {
+    return new OptionT<F, A>(
+      this.effect,
+      this.effect.bind(this.value, (option: Option<A>) =>
+        option.match({
+          ifSome: (_value) => this.effect.of(option),
+          ifNone: () => fallback().value,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Extracts the value inside the effect, or a default if there is none.
+   *
+   * @param defaultValue Value to produce if this produces `None`.
+   * @returns The effect producing the value.
+   */
+  getOrElse(defaultValue: A): Kind<F, A> {
+    return this.effect.map(this.value, (option: Option<A>) =>
+      option.getOrElse(defaultValue),
+    );
+  }
+
+  /**
+   * Lifts a pure value into `Some` inside the effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The value to lift.
+   */
+  static of<F extends HKT, A>(
+    effect: MonadInstance<F>,
+    value: A,
+  ): OptionT<F, A> {
+    return OptionT.fromOption(effect, Option.pure(value));
+  }
+
+  /**
+   * Returns an OptionT producing `None`.
+   *
+   * @param effect The instance of the underlying effect.
+   */
+  static none<F extends HKT, A>(effect: MonadInstance<F>): OptionT<F, A> {
+    return OptionT.fromOption(effect, None.get<A>());
+  }
+
+  /**
+   * Lifts an Option into the effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param option The Option to lift.
+   */
+  static fromOption<F extends HKT, A>(
+    effect: MonadInstance<F>,
+    option: Option<A>,
+  ): OptionT<F, A> {
+    return new OptionT<F, A>(effect, effect.of(option));
+  }
+
+  /**
+   * Lifts an effect, whose result becomes `Some`.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param fa The effect to lift.
+   */
+  static lift<F extends HKT, A>(
+    effect: MonadInstance<F>,
+    fa: Kind<F, A>,
+  ): OptionT<F, A> {
+    return new OptionT<F, A>(
+      effect,
+      effect.map(fa, (value: A) => Option.pure(value)),
+    );
+  }
+
+  /**
+   * Wraps an effect already producing an Option.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The effect producing an Option.
+   */
+  static from<F extends HKT, A>(
+    effect: MonadInstance<F>,
+    value: Kind<F, Option<A>>,
+  ): OptionT<F, A> {
+    return new OptionT<F, A>(effect, value);
+  }
+
+  /**
+   * Returns the Monad instance of OptionT over `F`, so that other
+   * transformers can be stacked on top of it.
+   *
+   * @param effect The instance of the underlying effect.
+   */
+  static monad<F extends HKT>(
+    effect: MonadInstance<F>,
+  ): MonadInstance<OptionTKind<F>> {
+    return {
+      of: (value) => OptionT.of(effect, value),
+      map: (fa, func) => fa.map(func),
+      ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+      bind: (fa, func) => fa.bind(func),
+    };
+  }
+}
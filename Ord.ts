@@ -0,0 +1,86 @@
+import Eq from "./Eq";
+
+/**
+ * The result of a comparison: `-1` if the first value comes first,
+ * `1` if it comes last, and `0` if both are equivalent.
+ */
+export type Ordering = -1 | 0 | 1;
+
+/**
+ * A typeclass for types whose values are totally ordered.
+ *
+ * `equals(x, y)` must hold exactly when `compare(x, y)` is `0`.
+ */
+export default interface Ord<A> extends Eq<A> {
+  compare(x: A, y: A): Ordering;
+}
+
+export function fromCompare<A>(compare: (x: A, y: A) => Ordering): Ord<A> {
+  return {
+    compare: (x, y) => (x === y ? 0 : compare(x, y)),
+    equals: (x, y) => x === y || compare(x, y) === 0,
+  };
+}
+
+function comparePrimitives<A extends number | string | boolean>(
+  x: A,
+  y: A,
+): Ordering {
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export const NumberOrd: Ord<number> = fromCompare(comparePrimitives);
+export const StringOrd: Ord<string> = fromCompare(comparePrimitives);
+export const BooleanOrd: Ord<boolean> = fromCompare(comparePrimitives);
+export const DateOrd: Ord<Date> = fromCompare((x, y) =>
+  comparePrimitives(x.getTime(), y.getTime()),
+);
+
+/**
+ * Orders values of type `B` by ordering their images of type `A`.
+ */
+export function contramap<A, B>(ord: Ord<A>, func: (value: B) => A): Ord<B> {
+  return fromCompare((x, y) => ord.compare(func(x), func(y)));
+}
+
+/**
+ * Inverts an order.
+ */
+export function reverse<A>(ord: Ord<A>): Ord<A> {
+  return fromCompare((x, y) => ord.compare(y, x));
+}
+
+/**
+ * Orders arrays lexicographically: element by element, then shorter first.
+ */
+export function ArrayOrd<A>(ord: Ord<A>): Ord<A[]> {
+  return fromCompare((x, y) => {
+    const length = Math.min(x.length, y.length);
+    for (let i = 0; i < length; i++) {
+      const ordering = ord.compare(x[i], y[i]);
+      if (ordering !== 0) return ordering;
+    }
+    return comparePrimitives(x.length, y.length);
+  });
+}
+
+/**
+ * Orders values by a first order, breaking ties with the next ones.
+ */
+export function thenBy<A>(...ords: Ord<A>[]): Ord<A> {
+  return fromCompare((x, y) => {
+    for (const ord of ords) {
+      const ordering = ord.compare(x, y);
+      if (ordering !== 0) return ordering;
+    }
+    return 0;
+  });
+}
+
+export function min<A>(ord: Ord<A>): (x: A, y: A) => A {
+  return (x, y) => (ord.compare(x, y) <= 0 ? x : y);
+}
+
+export function max<A>(ord: Ord<A>): (x: A, y: A) => A {
+  return (x, y) => (ord.compare(x, y) >= 0 ? x : y);
+}
@@ -0,0 +1,497 @@
+import gen from "./Do";
+import Either from "./Either";
+import Monad from "./Monad";
+import Option, { None } from "./Option";
+
+/**
+ * A location in the parsed input. Lines and columns start at 1.
+ */
+export interface Position {
+  readonly offset: number;
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * The failure of a parser: where the input could not be parsed, what was
+ * expected there, and what was found instead.
+ */
+export interface ParseError {
+  readonly position: Position;
+  readonly expected: readonly string[];
+  readonly found: string;
+}
+
+/**
+ * The result of running a parser from an offset.
+ *
+ * Along with its outcome, every reply carries the furthest offset where a
+ * parser failed, and what was expected there, so that a failing choice
+ * reports the alternative that went the furthest.
+ */
+type Reply<A> =
+  | {
+      readonly ok: true;
+      readonly offset: number;
+      readonly value: A;
+      readonly furthest: number;
+      readonly expected: readonly string[];
+    }
+  | {
+      readonly ok: false;
+      readonly furthest: number;
+      readonly expected: readonly string[];
+    };
+
+function success<A>(offset: number, value: A): Reply<A> {
+  return { ok: true, offset, value, furthest: -1, expected: [] };
+}
+
+function failure<A>(offset: number, expected: string): Reply<A> {
+  return { ok: false, furthest: offset, expected: [expected] };
+}
+
+/**
+ * Keeps the furthest failure of two replies, merging what was expected when
+ * they failed at the same offset.
+ */
+function merge<A>(reply: Reply<A>, previous: Reply<unknown>): Reply<A> {
+  if (reply.furthest > previous.furthest) return reply;
+  const expected =
+    reply.furthest === previous.furthest
+      ? [
+          ...previous.expected,
+          ...reply.expected.filter((x) => previous.expected.indexOf(x) === -1),
+        ]
+      : previous.expected;
+  return { ...reply, furthest: previous.furthest, expected };
+}
+
+/**
+ * Computes the line and column of an offset in the input.
+ */
+export function positionAt(input: string, offset: number): Position {
+  let line = 1;
+  let start = 0;
+  for (let i = 0; i < offset; i++)
+    if (input[i] === "\n") {
+      line++;
+      start = i + 1;
+    }
+  return { offset, line, column: offset - start + 1 };
+}
+
+/**
+ * Formats an error, such as `line 1, column 5: expected "," or "]", got "x"`.
+ */
+export function formatParseError(error: ParseError): string {
+  const { line, column } = error.position;
+  return `line ${line}, column ${column}: expected ${error.expected.join(
+    " or ",
+  )}, got ${error.found}`;
+}
+
+/**
+ * Parses a string into a value of type `A`.
+ *
+ * Parsers are built from primitives (`char`, `string`, `regex`, ...) and
+ * combinators (`many`, `sepBy`, `choice`, ...), and chained with `bind`.
+ * Alternatives backtrack: `or` tries the second parser from where the first
+ * one started, whatever the first one consumed.
+ *
+ * @template A - Type of the parsed value.
+ *
+ * @example
+ * const integer = regex(/-?[0-9]+/).map(Number);
+ * const list = between(char("["), char("]"), sepBy(integer, char(",")));
+ * list.parse("[1,2,3]"); // Right([1, 2, 3])
+ */
+export default class Parser<A> implements Monad<A, Parser<any>> {
+  private constructor(
+    private readonly run: (input: string, offset: number) => Reply<A>,
+  ) {}
+
+  /**
+   * Parses the whole input: the parser must reach its end.
+   * @param input Text to parse.
+   * @returns The parsed value, or where and why the input could not be parsed.
+   */
+  parse(input: string): Either<ParseError, A> {
+    const reply = this.skip(eof).run(input, 0);
+    if (reply.ok) return Either.asRight(reply.value);
+    return Either.asLeft({
+      position: positionAt(input, reply.furthest),
+      expected: reply.expected,
+      found:
+        reply.furthest < input.length
+          ? JSON.stringify(input[reply.furthest])
+          : "end of input",
+    });
+  }
+
+  /**
+   * Runs the parser, then the parser computed from its value.
+   * @param func Function computing the next parser from the parsed value.
+   */
+  bind<B>(func: (value: A) => Parser<B>): Parser<B> {
+    return new Parser((input, offset) => {
+      const reply = this.run(input, offset);
+      if (!reply.ok) return reply;
+      return merge(func(reply.value).run(input, reply.offset), reply);
+    });
+  }
+
+  map<B>(func: (value: A) => B): Parser<B> {
+    return this.bind((value) => Parser.of(func(value)));
+  }
+
+  /**
+   * Runs the parser, or the other one from the same offset if it fails.
+   */
+  or<B>(other: Parser<B>): Parser<A | B> {
+    return new Parser<A | B>((input, offset) => {
+      const reply = this.run(input, offset);
+      if (reply.ok) return reply;
+      return merge(other.run(input, offset), reply);
+    });
+  }
+
+  /**
+   * Runs the parser then another one, keeping the value of the other one.
+   */
+  then<B>(other: Parser<B>): Parser<B> {
+    return this.bind(() => other);
+  }
+
+  /**
+   * Runs the parser then another one, keeping the value of this one.
+   */
+  skip<B>(other: Parser<B>): Parser<A> {
+    return this.bind((value) => other.map(() => value));
+  }
+
+  /**
+   * Describes what the parser expects, replacing the descriptions of its
+   * parts in errors at the offset where it starts.
+   *
+   * @example
+   * regex(/[a-z]+/).label("an identifier");
+   */
+  label(name: string): Parser<A> {
+    return new Parser((input, offset) => {
+      const reply = this.run(input, offset);
+      return reply.furthest === offset ? { ...reply, expected: [name] } : reply;
+    });
+  }
+
+  /**
+   * Parses nothing, producing a value.
+   */
+  static of<A>(value: A): Parser<A> {
+    return new Parser((_, offset) => success(offset, value));
+  }
+
+  /**
+   * Parses nothing, and fails.
+   * @param expected Description of what was expected, for the error.
+   */
+  static fail<A = never>(expected: string): Parser<A> {
+    return new Parser((_, offset) => failure(offset, expected));
+  }
+
+  /**
+   * Defers building a parser until it runs, for recursive grammars.
+   *
+   * @example
+   * const value: Parser<Value> = Parser.lazy(() => choice(number, array));
+   * const array = between(char("["), char("]"), sepBy(value, char(",")));
+   */
+  static lazy<A>(build: () => Parser<A>): Parser<A> {
+    let parser: Parser<A> | undefined;
+    return new Parser((input, offset) => {
+      if (parser === undefined) parser = build();
+      return parser.run(input, offset);
+    });
+  }
+
+  /**
+   * Builds a parser from a generator yielding parsers, like `gen` from Do.ts.
+   *
+   * @example
+   * const pair = Parser.gen(function* () {
+   *   const key = yield* regex(/[a-z]+/);
+   *   yield* char("=");
+   *   const value = yield* regex(/[0-9]+/).map(Number);
+   *   return [key, value] as const;
+   * });
+   */
+  static gen<A>(body: () => Generator<Parser<any>, A, any>): Parser<A> {
+    // Each run restarts the generator, since a run resumes it once per yield
+    return new Parser((input, offset) =>
+      gen(body, (value: A) => Parser.of(value)).run(input, offset),
+    );
+  }
+
+  /**
+   * Builds a parser from a function of the input and the offset to parse
+   * from, for the primitives.
+   */
+  static primitive<A>(
+    func: (input: string, offset: number) => Option<[A, number]>,
+    expected: string,
+  ): Parser<A> {
+    return new Parser((input, offset) =>
+      func(input, offset).match({
+        ifSome: ([value, next]) => success(next, value),
+        ifNone: () => failure(offset, expected),
+      }),
+    );
+  }
+
+  /**
+   * Runs the parser as many times as it succeeds, collecting its values.
+   * The repetitions are run in a loop, so long inputs do not overflow the stack.
+   */
+  many(): Parser<A[]> {
+    return new Parser((input, start) => {
+      const values: A[] = [];
+      let offset = start;
+      let last: Reply<unknown> = success(offset, undefined);
+      for (;;) {
+        const reply = merge(this.run(input, offset), last);
+        // Stop at a failure, or at a repetition consuming nothing, which
+        // would repeat forever
+        if (!reply.ok || reply.offset === offset)
+          return merge(success(offset, values), reply);
+        values.push(reply.value);
+        offset = reply.offset;
+        last = reply;
+      }
+    });
+  }
+
+  /**
+   * Runs the parser without consuming input.
+   */
+  lookahead(): Parser<A> {
+    return new Parser((input, offset) => {
+      const reply = this.run(input, offset);
+      return reply.ok ? { ...reply, offset } : reply;
+    });
+  }
+
+  /**
+   * Yields this `Parser` inside `Parser.gen`, evaluating to the parsed value.
+   */
+  *[Symbol.iterator](): Generator<Parser<A>, A, any> {
+    return yield this;
+  }
+}
+
+/**
+ * Parses a character satisfying a predicate.
+ * @param predicate Condition on the character.
+ * @param expected Description of the expected characters, for errors.
+ */
+export function satisfy(
+  predicate: (char: string) => boolean,
+  expected: string,
+): Parser<string> {
+  return Parser.primitive(
+    (input, offset) =>
+      offset < input.length && predicate(input[offset])
+        ? Option.pure([input[offset], offset + 1])
+        : None.get(),
+    expected,
+  );
+}
+
+/**
+ * Parses a given character.
+ */
+export function char(c: string): Parser<string> {
+  return satisfy((x) => x === c, JSON.stringify(c));
+}
+
+/**
+ * Parses a given string.
+ */
+export function string(s: string): Parser<string> {
+  return Parser.primitive(
+    (input, offset) =>
+      input.startsWith(s, offset)
+        ? Option.pure([s, offset + s.length])
+        : None.get(),
+    JSON.stringify(s),
+  );
+}
+
+/**
+ * Parses the text matched by a regular expression at the current offset.
+ * @param pattern The regular expression. Its `g` and `y` flags are ignored.
+ * @param group Group of the match to produce, the whole match by default.
+ */
+export function regex(pattern: RegExp, group = 0): Parser<string> {
+  const sticky = new RegExp(
+    pattern.source,
+    pattern.flags.replace(/[gy]/g, "") + "y",
+  );
+  return Parser.primitive((input, offset) => {
+    sticky.lastIndex = offset;
+    const match = sticky.exec(input);
+    return match === null
+      ? None.get()
+      : Option.pure([match[group], offset + match[0].length]);
+  }, String(pattern));
+}
+
+/**
+ * Succeeds only at the end of the input.
+ */
+export const eof: Parser<void> = Parser.primitive(
+  (input, offset) =>
+    offset === input.length ? Option.pure([undefined, offset]) : None.get(),
+  "end of input",
+);
+
+/**
+ * Parses optional whitespace.
+ */
+export const whitespace: Parser<string> = regex(/\s*/);
+
+/**
+ * Runs a parser as many times as it succeeds, possibly none.
+ */
+export function many<A>(parser: Parser<A>): Parser<A[]> {
+  return parser.many();
+}
+
+/**
+ * Runs a parser as many times as it succeeds, at least once.
+ */
+export function many1<A>(parser: Parser<A>): Parser<A[]> {
+  return parser.bind((first) => parser.many().map((rest) => [first, ...rest]));
+}
+
+/**
+ * Parses values separated by a separator, possibly none.
+ */
+export function sepBy<A, S>(
+  parser: Parser<A>,
+  separator: Parser<S>,
+): Parser<A[]> {
+  return sepBy1(parser, separator).or(Parser.of<A[]>([]));
+}
+
+/**
+ * Parses values separated by a separator, at least one.
+ */
+export function sepBy1<A, S>(
+  parser: Parser<A>,
+  separator: Parser<S>,
+): Parser<A[]> {
+  return parser.bind((first) =>
+    separator
+      .then(parser)
+      .many()
+      .map((rest) => [first, ...rest]),
+  );
+}
+
+/**
+ * Parses a value between an opening and a closing parser, such as brackets.
+ */
+export function between<A, O, C>(
+  open: Parser<O>,
+  close: Parser<C>,
+  parser: Parser<A>,
+): Parser<A> {
+  return open.then(parser).skip(close);
+}
+
+/**
+ * Runs the first parser that succeeds, each from the same offset.
+ * If all of them fail, the error reports what each of them expected.
+ */
+export function choice<P extends [Parser<any>, ...Parser<any>[]]>(
+  ...parsers: P
+): Parser<P[number] extends Parser<infer A> ? A : never> {
+  return parsers
+    .slice(1)
+    .reduce((acc: Parser<any>, parser) => acc.or(parser), parsers[0]);
+}
+
+/**
+ * Runs a parser if it succeeds, producing `None` otherwise.
+ */
+export function optional<A>(parser: Parser<A>): Parser<Option<A>> {
+  return parser.map((value) => Option.pure(value)).or(Parser.of(None.get<A>()));
+}
+
+/**
+ * Runs a parser without consuming input, producing its value.
+ */
+export function lookahead<A>(parser: Parser<A>): Parser<A> {
+  return parser.lookahead();
+}
+
+/**
+ * Parses values separated by left-associative operators, such as `1 - 2 - 3`
+ * read as `(1 - 2) - 3`. Nesting it gives the operators their precedence.
+ *
+ * @param parser Parser of the operands.
+ * @param operator Parser of the operators, producing the function combining
+ * the operands around them.
+ *
+ * @example
+ * const factor = regex(/[0-9]+/).map(Number);
+ * const term = chainl1(factor, char("*").map(() => (x: number, y: number) => x * y));
+ * const sum = chainl1(term, char("+").map(() => (x: number, y: number) => x + y));
+ * sum.parse("1+2*3"); // Right(7)
+ */
+export function chainl1<A>(
+  parser: Parser<A>,
+  operator: Parser<(left: A, right: A) => A>,
+): Parser<A> {
+  const rest = operator.bind((func) =>
+    parser.map((right) => ({ func, right })),
+  );
+  return parser.bind((first) =>
+    rest
+      .many()
+      .map((operations) =>
+        operations.reduce((acc, { func, right }) => func(acc, right), first),
+      ),
+  );
+}
+
+/**
+ * Parses values separated by right-associative operators, such as `2 ^ 3 ^ 2`
+ * read as `2 ^ (3 ^ 2)`.
+ *
+ * @param parser Parser of the operands.
+ * @param operator Parser of the operators, producing the function combining
+ * the operands around them.
+ */
+export function chainr1<A>(
+  parser: Parser<A>,
+  operator: Parser<(left: A, right: A) => A>,
+): Parser<A> {
+  const rest = operator.bind((func) =>
+    parser.map((right) => ({ func, right })),
+  );
+  return parser.bind((first) =>
+    rest.many().map((operations) => {
+      if (operations.length === 0) return first;
+      // Combine from the right: the left operand of each operator is the
+      // right operand of the previous one
+      let result = operations[operations.length - 1].right;
+      for (let i = operations.length - 1; i >= 0; i--)
+        result = operations[i].func(
+          i === 0 ? first : operations[i - 1].right,
+          result,
+        );
+      return result;
+    }),
+  );
+}
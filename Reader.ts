@@ -0,0 +1,191 @@
+import gen from "./Do";
+import Either from "./Either";
+import IO from "./IO";
+import Monad from "./Monad";
+import Option from "./Option";
+
+/**
+ * Represents a computation that reads from a shared environment of type `R`
+ * to produce a value of type `A`.
+ *
+ * `Reader` is the dual of `Writer`: instead of accumulating an output, every
+ * step of the computation receives the same input. This makes it a way to do
+ * dependency injection: configuration, loggers or database clients are read
+ * with `ask`/`asks` and only provided once, when `run(env)` is called.
+ *
+ * @template R The type of the environment.
+ * @template A The type of the value produced by this Reader.
+ *
+ * @example
+ * type Env = { db: Database; logger: Logger };
+ *
+ * const findUser = (id: string) =>
+ *   Reader.asks((env: Env) => env.db.findUser(id));
+ *
+ * const program = findUser("42").bind((user) =>
+ *   Reader.asks((env: Env) => env.logger.info(`found ${user.name}`)),
+ * );
+ *
+ * program.run({ db, logger });
+ */
+export default class Reader<R, A> implements Monad<A, Reader<R, A>> {
+  /**
+   * Constructs a new Reader from a function of the environment.
+   * Use `Reader.asks` instead.
+   * @param computation Function computing the value from the environment.
+   */
+  private constructor(private computation: (env: R) => A) {}
+
+  /**
+   * Runs the computation with an environment.
+   *
+   * @param env The environment to read from.
+   * @returns The value produced by the computation.
+   */
+  run(env: R): A {
+    return this.computation(env);
+  }
+
+  /**
+   * Monadic bind (flatMap) to sequence Readers over the same environment.
+   *
+   * @template B The result type of the next Reader.
+   * @param func Function mapping a value to a new Reader.
+   * @returns A new Reader representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => Reader<R, B>): Reader<R, B> {
+    return new Reader<R, B>((env) => func(this.run(env)).run(env));
+  }
+
+  /**
+   * Functor map to apply a pure function to the result of this Reader.
+   *
+   * @template B The result type after applying the function.
+   * @param func Function to transform the value.
+   * @returns A new Reader containing the transformed value.
+   */
+  map<B>(func: (value: A) => B): Reader<R, B> {
+    return new Reader<R, B>((env) => func(this.run(env)));
+  }
+
+  /**
+   * Runs this Reader in a modified environment.
+   * This can be used to adapt a Reader to a larger environment, or to
+   * override a part of the environment for a sub-computation.
+   *
+   * @template R2 The type of the outer environment.
+   * @param func Function building this Reader's environment from the outer one.
+   * @returns A Reader over the outer environment.
+   */
+  local<R2>(func: (env: R2) => R): Reader<R2, A> {
+    return new Reader<R2, A>((env) => this.run(func(env)));
+  }
+
+  /**
+   * Lifts a pure value into the Reader context, ignoring the environment.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the value.
+   * @param value The value to lift.
+   * @returns A Reader producing the value.
+   */
+  static of<R, A>(value: A): Reader<R, A> {
+    return new Reader<R, A>((_env) => value);
+  }
+
+  /**
+   * Returns a Reader producing the whole environment.
+   *
+   * @template R The type of the environment.
+   * @returns A Reader producing the environment.
+   */
+  static ask<R>(): Reader<R, R> {
+    return new Reader<R, R>((env) => env);
+  }
+
+  /**
+   * Returns a Reader producing a value computed from the environment.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the value.
+   * @param func Function reading the value from the environment.
+   * @returns A Reader producing the value.
+   */
+  static asks<R, A>(func: (env: R) => A): Reader<R, A> {
+    return new Reader<R, A>(func);
+  }
+
+  /**
+   * Lifts an IO into the Reader context, keeping it unexecuted.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the IO's result.
+   * @param io The IO to lift.
+   * @returns A Reader producing the IO.
+   */
+  static fromIO<R, A>(io: IO<A>): Reader<R, IO<A>> {
+    return Reader.of(io);
+  }
+
+  /**
+   * Lifts an Either into the Reader context.
+   *
+   * @template R The type of the environment.
+   * @template L The type of the Left value.
+   * @template A The type of the Right value.
+   * @param either The Either to lift.
+   * @returns A Reader producing the Either.
+   */
+  static fromEither<R, L, A>(either: Either<L, A>): Reader<R, Either<L, A>> {
+    return Reader.of(either);
+  }
+
+  /**
+   * Lifts an Option into the Reader context.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the Option's value.
+   * @param option The Option to lift.
+   * @returns A Reader producing the Option.
+   */
+  static fromOption<R, A>(option: Option<A>): Reader<R, Option<A>> {
+    return Reader.of(option);
+  }
+
+  /**
+   * Builds an IO from a function of the environment, deferring both reading
+   * the environment and the effect to the time the IO is run.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the IO's result.
+   * @param func Function building an IO from the environment.
+   * @returns A Reader producing the IO.
+   */
+  static asksIO<R, A>(func: (env: R) => IO<A>): Reader<R, IO<A>> {
+    return new Reader<R, IO<A>>((env) => IO.of(env).bind(func));
+  }
+
+  /**
+   * Yields this Reader inside `Reader.gen`, evaluating to its value.
+   */
+  *[Symbol.iterator](): Generator<Reader<R, A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for Reader: runs a generator where `yield*` reads a value
+   * from the environment. The generator is started again on every run.
+   *
+   * @template R The type of the environment.
+   * @template A The type of the value returned by the generator.
+   * @param body Generator function describing the computation.
+   * @returns A Reader producing the returned value.
+   */
+  static gen<R, A>(
+    body: () => Generator<Reader<R, any>, A, any>,
+  ): Reader<R, A> {
+    return Reader.ask<R>().bind(() =>
+      gen(body, (value: A) => Reader.of<R, A>(value)),
+    );
+  }
+}
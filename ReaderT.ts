@@ -0,0 +1,175 @@
+import HKT, { Kind } from "./HKT";
+import Monad from "./Monad";
+import { Monad as MonadInstance } from "./Typeclass";
+
+/**
+ * The type constructor of `ReaderT` over the effect `F`, with environment `R`.
+ */
+export interface ReaderTKind<F extends HKT, R> extends HKT {
+  readonly type: ReaderT<F, R, this["A"]>;
+}
+
+/**
+ * Monad transformer adding an environment to an effect: a `ReaderT<F, R, A>`
+ * wraps a function `(env: R) => Kind<F, A>`, such as `(env: R) => IO<A>`.
+ *
+ * Like `Reader`, every step receives the same environment, which is only
+ * provided when `run(env)` is called. Stacked on `EitherT`, it describes a
+ * program that needs configuration, may fail with a domain error and
+ * performs effects, as one flat chain.
+ *
+ * @template F The type constructor of the underlying effect.
+ * @template R The type of the environment.
+ * @template A The type of the value.
+ *
+ * @example
+ * type App<A> = ReaderT<EitherTKind<IOKind, AppError>, Config, A>;
+ * const AppMonad = EitherT.monad<IOKind, AppError>(IOMonad);
+ *
+ * const fetchUser = (id: string): App<User> =>
+ *   ReaderT.asks(AppMonad, (config: Config) => config.url).bind((url) =>
+ *     ReaderT.lift(AppMonad, EitherT.from(IOMonad, IO.from(() => get(url, id)))),
+ *   );
+ *
+ * fetchUser("42").run(config).run().runUnsafe(); // Either<AppError, User>
+ */
+export default class ReaderT<F extends HKT, R, A> implements Monad<
+  A,
+  ReaderT<F, R, A>
+> {
+  /**
+   * Constructs a new ReaderT. Use `ReaderT.of`, `ReaderT.asks` or
+   * `ReaderT.lift` instead.
+   * @param effect The instance of the underlying effect.
+   * @param computation Function building the effect from the environment.
+   */
+  private constructor(
+    private effect: MonadInstance<F>,
+    private computation: (env: R) => Kind<F, A>,
+  ) {}
+
+  /**
+   * Provides the environment, returning the underlying effect.
+   *
+   * @param env The environment to read from.
+   * @returns The effect built from the environment.
+   */
+  run(env: R): Kind<F, A> {
+    return this.computation(env);
+  }
+
+  /**
+   * Sequences a computation depending on the value, over the same environment.
+   *
+   * @template B The type of the next value.
+   * @param func Function mapping a value to the next ReaderT.
+   * @returns A new ReaderT representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => ReaderT<F, R, B>): ReaderT<F, R, B> {
+    return new ReaderT<F, R, B>(this.effect, (env) =>
+      this.effect.bind(this.run(env), (value: A) => func(value).run(env)),
+    );
+  }
+
+  /**
+   * Applies a pure function to the value.
+   *
+   * @template B The type of the transformed value.
+   * @param func Function to transform the value.
+   * @returns A new ReaderT containing the transformed value.
+   */
+  map<B>(func: (value: A) => B): ReaderT<F, R, B> {
+    return new ReaderT<F, R, B>(this.effect, (env) =>
+      this.effect.map(this.run(env), func),
+    );
+  }
+
+  /**
+   * Runs this ReaderT in a modified environment.
+   *
+   * @template R2 The type of the outer environment.
+   * @param func Function building this ReaderT's environment from the outer one.
+   * @returns A ReaderT over the outer environment.
+   */
+  local<R2>(func: (env: R2) => R): ReaderT<F, R2, A> {
+    return new ReaderT<F, R2, A>(this.effect, (env) => this.run(func(env)));
+  }
+
+  /**
+   * Lifts a pure value into the effect, ignoring the environment.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param value The value to lift.
+   */
+  static of<F extends HKT, R, A>(
+    effect: MonadInstance<F>,
+    value: A,
+  ): ReaderT<F, R, A> {
+    return new ReaderT<F, R, A>(effect, (_env) => effect.of(value));
+  }
+
+  /**
+   * Returns a ReaderT producing the whole environment.
+   *
+   * @param effect The instance of the underlying effect.
+   */
+  static ask<F extends HKT, R>(effect: MonadInstance<F>): ReaderT<F, R, R> {
+    return new ReaderT<F, R, R>(effect, (env) => effect.of(env));
+  }
+
+  /**
+   * Returns a ReaderT producing a value computed from the environment.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param func Function reading the value from the environment.
+   */
+  static asks<F extends HKT, R, A>(
+    effect: MonadInstance<F>,
+    func: (env: R) => A,
+  ): ReaderT<F, R, A> {
+    return new ReaderT<F, R, A>(effect, (env) => effect.of(func(env)));
+  }
+
+  /**
+   * Lifts an effect, ignoring the environment.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param fa The effect to lift.
+   */
+  static lift<F extends HKT, R, A>(
+    effect: MonadInstance<F>,
+    fa: Kind<F, A>,
+  ): ReaderT<F, R, A> {
+    return new ReaderT<F, R, A>(effect, (_env) => fa);
+  }
+
+  /**
+   * Builds a ReaderT from a function of the environment returning an effect.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param computation Function building the effect from the environment.
+   */
+  static from<F extends HKT, R, A>(
+    effect: MonadInstance<F>,
+    computation: (env: R) => Kind<F, A>,
+  ): ReaderT<F, R, A> {
+    return new ReaderT<F, R, A>(effect, computation);
+  }
+
+  /**
+   * Returns the Monad instance of ReaderT over `F`, so that other
+   * transformers can be stacked on top of it.
+   *
+   * @param effect The instance of the underlying effect.
+   */
+  static monad<F extends HKT, R>(
+    effect: MonadInstance<F>,
+  ): MonadInstance<ReaderTKind<F, R>> {
+    return {
+      of: (value) => ReaderT.of(effect, value),
+      map: (fa, func) => fa.map(func),
+      ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+      bind: (fa, func) => fa.bind(func),
+    };
+  }
+}
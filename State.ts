@@ -0,0 +1,289 @@
+import { Sum } from "./ADTs";
+import gen from "./Do";
+import Monad from "./Monad";
+
+/**
+ * The instructions a `State` program is built from:
+ * - `Pure`: an already computed value, leaving the state unchanged.
+ * - `Step`: a transition computing a value and the next state.
+ * - `FlatMap`: a source program followed by a continuation.
+ */
+type StateNode<S, A> = Sum<{
+  Pure: { value: A };
+  Step: { transition: (state: S) => [A, S] };
+  FlatMap: {
+    source: State<S, any>;
+    func: (value: any) => State<S, A>;
+  };
+}>;
+
+/**
+ * Represents a computation that threads a state of type `S` through its steps
+ * to produce a value of type `A`.
+ *
+ * Each step can read the current state and replace it, without the state being
+ * passed around by hand. Nothing happens until `run` is called with an initial
+ * state; the program is then interpreted by a loop, so arbitrarily long chains
+ * of `bind` (such as a state machine running a million steps) run in constant
+ * JS stack depth.
+ *
+ * @template S The type of the state.
+ * @template A The type of the value produced by this computation.
+ *
+ * @example
+ * const nextId = State.modify((n: number) => n + 1).bind(() => State.get<number>());
+ * State.replicateM(3, nextId).run(0); // [[1, 2, 3], 3]
+ */
+export default class State<S, A> implements Monad<A, State<S, A>> {
+  /**
+   * Constructs a new State from a node of the program.
+   * Use `State.of`, `State.get` or the other constructors instead.
+   * @param node The instruction this State represents.
+   */
+  private constructor(private node: StateNode<S, A>) {}
+
+  /**
+   * Runs the computation from an initial state.
+   *
+   * @param initial The initial state.
+   * @returns The value produced, and the final state.
+   */
+  run(initial: S): [A, S] {
+    const continuations: Array<(value: any) => State<S, any>> = [];
+    let current: State<S, any> = this;
+    let state = initial;
+
+    while (true) {
+      const node = current.node as StateNode<S, any>;
+      let value: any;
+
+      switch (node._type) {
+        case "FlatMap":
+          continuations.push(node.func);
+          current = node.source;
+          continue;
+        case "Pure":
+          value = node.value;
+          break;
+        case "Step":
+          [value, state] = node.transition(state);
+          break;
+      }
+
+      const next = continuations.pop();
+      if (next === undefined) return [value, state];
+      current = next(value);
+    }
+  }
+
+  /**
+   * Runs the computation and keeps only the value produced.
+   *
+   * @param initial The initial state.
+   * @returns The value produced.
+   */
+  evalState(initial: S): A {
+    return this.run(initial)[0];
+  }
+
+  /**
+   * Runs the computation and keeps only the final state.
+   *
+   * @param initial The initial state.
+   * @returns The final state.
+   */
+  execState(initial: S): S {
+    return this.run(initial)[1];
+  }
+
+  /**
+   * Monadic bind (flatMap) to sequence stateful computations.
+   * The next computation starts from the state this one ends with.
+   *
+   * @template B The result type of the next computation.
+   * @param func Function mapping a value to the next computation.
+   * @returns A new State representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => State<S, B>): State<S, B> {
+    return new State<S, B>({ _type: "FlatMap", source: this, func });
+  }
+
+  /**
+   * Functor map to apply a pure function to the value produced.
+   *
+   * @template B The result type after applying the function.
+   * @param func Function to transform the value.
+   * @returns A new State producing the transformed value.
+   */
+  map<B>(func: (value: A) => B): State<S, B> {
+    return this.bind((value) => State.of(func(value)));
+  }
+
+  /**
+   * Lifts a pure value into the State context, leaving the state unchanged.
+   *
+   * @template S The type of the state.
+   * @template A The type of the value.
+   * @param value The value to lift.
+   * @returns A State producing the value.
+   */
+  static of<S, A>(value: A): State<S, A> {
+    return new State<S, A>({ _type: "Pure", value });
+  }
+
+  /**
+   * Builds a State from a transition function.
+   *
+   * @template S The type of the state.
+   * @template A The type of the value.
+   * @param transition Function computing the value and the next state.
+   * @returns A State running the transition.
+   */
+  static from<S, A>(transition: (state: S) => [A, S]): State<S, A> {
+    return new State<S, A>({ _type: "Step", transition });
+  }
+
+  /**
+   * Returns a State producing the current state.
+   *
+   * @template S The type of the state.
+   */
+  static get<S>(): State<S, S> {
+    return State.from((state: S) => [state, state]);
+  }
+
+  /**
+   * Returns a State producing a value computed from the current state.
+   *
+   * @template S The type of the state.
+   * @template A The type of the value.
+   * @param func Function reading the value from the state.
+   */
+  static gets<S, A>(func: (state: S) => A): State<S, A> {
+    return State.from((state: S) => [func(state), state]);
+  }
+
+  /**
+   * Returns a State replacing the current state.
+   *
+   * @template S The type of the state.
+   * @param state The new state.
+   */
+  static put<S>(state: S): State<S, void> {
+    return State.from((_state: S) => [undefined, state]);
+  }
+
+  /**
+   * Returns a State updating the current state with a function.
+   *
+   * @template S The type of the state.
+   * @param func Function computing the new state from the current one.
+   */
+  static modify<S>(func: (state: S) => S): State<S, void> {
+    return State.from((state: S) => [undefined, func(state)]);
+  }
+
+  /**
+   * Applies a stateful function to every element, running the resulting
+   * computations one after the other and collecting their values.
+   *
+   * @template S The type of the state.
+   * @template A The type of the elements.
+   * @template B The type of the values.
+   * @param values Elements to traverse, read once when this is called.
+   * @param func Function to apply to each element and its index.
+   * @returns A State producing all the values in order.
+   */
+  static traverse<S, A, B>(
+    values: Iterable<A>,
+    func: (value: A, index: number) => State<S, B>,
+  ): State<S, B[]> {
+    const items = Array.from(values);
+    // Each run collects into its own array
+    return State.from((state: S): [B[], S] => [[], state]).bind((result) =>
+      items.reduce(
+        (program, value, index) =>
+          program.bind(() =>
+            func(value, index).map((b) => {
+              result.push(b);
+              return result;
+            }),
+          ),
+        State.of<S, B[]>(result),
+      ),
+    );
+  }
+
+  /**
+   * Runs a computation a number of times, collecting its values.
+   *
+   * @template S The type of the state.
+   * @template A The type of the values.
+   * @param count Number of times to run the computation.
+   * @param state The computation to repeat.
+   * @returns A State producing all the values in order.
+   */
+  static replicateM<S, A>(count: number, state: State<S, A>): State<S, A[]> {
+    return State.whileM(
+      State.gets((_state: S) => true),
+      state,
+      count,
+    );
+  }
+
+  /**
+   * Runs a computation as long as a condition holds, collecting its values.
+   * The condition is checked before each run of the body.
+   *
+   * @template S The type of the state.
+   * @template A The type of the values.
+   * @param cond Computation deciding whether to run the body again.
+   * @param body The computation to repeat.
+   * @param limit Maximum number of runs of the body, unbounded by default.
+   * @returns A State producing the values of all runs of the body, in order.
+   */
+  static whileM<S, A>(
+    cond: State<S, boolean>,
+    body: State<S, A>,
+    limit: number = Infinity,
+  ): State<S, A[]> {
+    return State.of<S, undefined>(undefined).bind(() => {
+      // Each run collects into its own array
+      const results: A[] = [];
+      const loop = (): State<S, A[]> =>
+        results.length >= limit
+          ? State.of(results)
+          : cond.bind((proceed) =>
+              proceed
+                ? body.bind((value) => {
+                    results.push(value);
+                    return loop();
+                  })
+                : State.of(results),
+            );
+      return loop();
+    });
+  }
+
+  /**
+   * Yields this State inside `State.gen`, evaluating to its value.
+   */
+  *[Symbol.iterator](): Generator<State<S, A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for State: runs a generator where `yield*` runs a stateful step.
+   * The generator is started again on every run.
+   *
+   * @template S The type of the state.
+   * @template A The type of the value returned by the generator.
+   * @param body Generator function describing the computation.
+   * @returns A State producing the returned value.
+   */
+  static gen<S, A>(body: () => Generator<State<S, any>, A, any>): State<S, A> {
+    return State.of<S, undefined>(undefined).bind(() =>
+      gen(body, (value: A) => State.of<S, A>(value)),
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import gen from "./Do";
+import IO from "./IO";
+import Monad from "./Monad";
+
+/**
+ * Represents a deferred asynchronous computation that produces a value of type `A`.
+ *
+ * `Task` is the asynchronous counterpart of `IO`: it wraps a function returning a
+ * `Promise` instead of a plain value. Like `IO`, nothing is executed when a `Task`
+ * is built or composed; the wrapped effect only starts when `run()` is called,
+ * and it starts again every time `run()` is called.
+ *
+ * @template A The type of the value produced by this Task.
+ */
+export default class Task<A> implements Monad<A, Task<A>> {
+  /**
+   * Constructs a new Task from a deferred asynchronous function.
+   * @param effect A function starting the asynchronous computation.
+   */
+  constructor(private effect: () => Promise<A>) {}
+
+  /**
+   * Executes the encapsulated asynchronous computation.
+   * This is the only point where side effects happen.
+   *
+   * @returns A promise resolving to the result of the computation.
+   */
+  run(): Promise<A> {
+    return this.effect();
+  }
+
+  /**
+   * Monadic bind (flatMap) to sequence asynchronous computations.
+   * The next Task is only built and run once this Task has resolved.
+   *
+   * @template B The result type of the next Task.
+   * @param func Function mapping a value to a new Task.
+   * @returns A new Task representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => Task<B>): Task<B> {
+    return new Task<B>(() => this.effect().then((value) => func(value).run()));
+  }
+
+  /**
+   * Functor map to apply a pure function to the result of this Task.
+   *
+   * @template B The result type after applying the function.
+   * @param func Function to transform the value.
+   * @returns A new Task containing the transformed value.
+   */
+  map<B>(func: (value: A) => B): Task<B> {
+    return new Task<B>(() => this.effect().then(func));
+  }
+
+  /**
+   * Lifts a pure value into the Task context.
+   *
+   * @template A The type of the value.
+   * @param value The value to lift.
+   * @returns A Task resolving to the value.
+   */
+  static of<A>(value: A): Task<A> {
+    return new Task<A>(() => Promise.resolve(value));
+  }
+
+  /**
+   * Creates a new Task from a thunk returning a promise.
+   *
+   * @template A The type of the result.
+   * @param thunk A function starting the asynchronous computation.
+   * @returns A Task wrapping the thunk.
+   */
+  static from<A>(thunk: () => Promise<A>): Task<A> {
+    return new Task<A>(thunk);
+  }
+
+  /**
+   * Yields this Task inside `Task.gen`, evaluating to its result.
+   */
+  *[Symbol.iterator](): Generator<Task<A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for Task: runs a generator where `yield*` awaits a Task.
+   * The generator itself is only started when the returned Task is run,
+   * and is started again on every run.
+   *
+   * @template A The type of the value returned by the generator.
+   * @param body Generator function describing the computation.
+   * @returns A Task resolving to the returned value.
+   */
+  static gen<A>(body: () => Generator<Task<any>, A, any>): Task<A> {
+    return Task.of(undefined).bind(() =>
+      gen(body, (value: A) => Task.of(value)),
+    );
+  }
+
+  /**
+   * Converts a synchronous IO into a Task.
+   * The IO is run when the Task is run, not when it is converted.
+   *
+   * @template A The type of the result.
+   * @param io The IO to convert.
+   * @returns A Task resolving to the result of the IO.
+   */
+  static fromIO<A>(io: IO<A>): Task<A> {
+    return new Task<A>(
+      () => new Promise<A>((resolve) => resolve(io.runUnsafe())),
+    );
+  }
+}
@@ -1,4 +1,19 @@
+import util from "util";
+import { Decoder, error as errorDecoder, field, tagged } from "./Decoder";
+import gen from "./Do";
+import Either from "./Either";
+import Eq, { DefaultEq } from "./Eq";
+import { combineHash, hash } from "./Hash";
+import List from "./List";
 import Monad from "./Monad";
+import Option, { None } from "./Option";
+
+/**
+ * The JSON format of a `Try`. `Error` failures are written as `{ name, message }`.
+ */
+export type TryJSON<A, E = unknown> =
+  | { _tag: "Success"; value: A }
+  | { _tag: "Failure"; error: E | { name: string; message: string } };
 
 export default abstract class Try<A, E = unknown>
   implements Monad<A, Try<any, E>>
@@ -9,6 +24,294 @@ export default abstract class Try<A, E = unknown>
   abstract getOrElse(defaultValue: A): A;
   abstract recover(func: (error: E) => A): Try<A, E>;
   abstract recoverWith(func: (error: E) => Try<A, E>): Try<A, E>;
+
+  /**
+   * Applies one of two functions based on whether this is a `Success` or a `Failure`.
+   */
+  abstract match<D>(cond: {
+    ifSuccess: (value: A) => D;
+    ifFailure: (error: E) => D;
+  }): D;
+
+  /**
+   * Returns the successful value, or throws the error of a `Failure`.
+   */
+  abstract get(): A;
+
+  /**
+   * Turns a `Failure` into a `Success` of its error, and a `Success` into a
+   * `Failure` of an `Error`.
+   */
+  abstract failed(): Try<E>;
+
+  /**
+   * Customizes the output of Node.js `util.inspect` and `console.log`.
+   */
+  abstract [util.inspect.custom](): string;
+
+  /**
+   * Reduces the `Try` to a single value, like `match` with positional arms.
+   * @param onFailure Function applied to the error of a `Failure`.
+   * @param onSuccess Function applied to the value of a `Success`.
+   */
+  fold<D>(onFailure: (error: E) => D, onSuccess: (value: A) => D): D {
+    return this.match({ ifSuccess: onSuccess, ifFailure: onFailure });
+  }
+
+  /**
+   * Keeps a successful value satisfying a predicate, or fails with the error
+   * built from it.
+   * @param predicate Predicate the value must satisfy.
+   * @param onFail Function building the error, required unless the errors
+   * of this `Try` may be an `Error`, which is the default.
+   */
+  filter(
+    this: Try<A, Error extends E ? E : never>,
+    predicate: (value: A) => boolean,
+  ): Try<A, E>;
+  filter(predicate: (value: A) => boolean, onFail: (value: A) => E): Try<A, E>;
+  filter(
+    predicate: (value: A) => boolean,
+    onFail?: (value: A) => E,
+  ): Try<A, E | Error> {
+    const self: Try<A, E | Error> = this;
+    return self.bind((value) =>
+      predicate(value)
+        ? new Success<A, E | Error>(value)
+        : new Failure<A, E | Error>(
+            onFail
+              ? onFail(value)
+              : new Error(`Predicate does not hold for ${value}`),
+          ),
+    );
+  }
+
+  /**
+   * Continues with one of two functions, depending on whether this is a
+   * `Success` or a `Failure`. Errors thrown by them become a `Failure`.
+   * @param onSuccess Function applied to the value of a `Success`.
+   * @param onFailure Function applied to the error of a `Failure`.
+   */
+  transform<B>(
+    onSuccess: (value: A) => Try<B, E>,
+    onFailure: (error: E) => Try<B, E>,
+  ): Try<B, E> {
+    return Try.of<Try<B, E>, E>(() =>
+      this.match({ ifSuccess: onSuccess, ifFailure: onFailure }),
+    ).bind((result) => result);
+  }
+
+  /**
+   * Removes one level of nesting from a `Try` of a `Try`.
+   */
+  flatten<B>(this: Try<Try<B, E>, E>): Try<B, E> {
+    return this.bind((inner) => inner);
+  }
+
+  /**
+   * Converts to an `Either`, with the error on the Left.
+   */
+  toEither(): Either<E, A> {
+    return this.match({
+      ifSuccess: (value) => Either.asRight<E, A>(value),
+      ifFailure: (error) => Either.asLeft<E, A>(error),
+    });
+  }
+
+  /**
+   * Converts to an `Option`, dropping the error.
+   */
+  toOption(): Option<A> {
+    return this.match({
+      ifSuccess: (value) => Option.pure(value),
+      ifFailure: () => None.get<A>(),
+    });
+  }
+
+  /**
+   * Converts to the tagged JSON format, called by `JSON.stringify`.
+   */
+  toJSON(): TryJSON<A, E> {
+    return this.match<TryJSON<A, E>>({
+      ifSuccess: (value) => ({ _tag: "Success", value }),
+      ifFailure: (error) => ({
+        _tag: "Failure",
+        error:
+          error instanceof Error
+            ? { name: error.name, message: error.message }
+            : error,
+      }),
+    });
+  }
+
+  /**
+   * Builds a decoder of tries written by `toJSON`.
+   * @param decodeA Decoder of the successful value.
+   * @param decodeE Decoder of the error, rebuilding an `Error` by default.
+   */
+  static fromJSON<A>(decodeA: Decoder<A>): Decoder<Try<A, Error>>;
+  static fromJSON<A, E>(
+    decodeA: Decoder<A>,
+    decodeE: Decoder<E>,
+  ): Decoder<Try<A, E>>;
+  static fromJSON<A, E>(
+    decodeA: Decoder<A>,
+    decodeE?: Decoder<E>,
+  ): Decoder<Try<A, E | Error>> {
+    const decodeError: Decoder<E | Error> = decodeE ?? errorDecoder;
+    return tagged<Try<A, E | Error>>("a Try", {
+      Success: (input) =>
+        field(input, "value", decodeA).map(
+          (value) => new Success<A, E | Error>(value),
+        ),
+      Failure: (input) =>
+        field(input, "error", decodeError).map(
+          (error) => new Failure<A, E | Error>(error),
+        ),
+    });
+  }
+
+  /**
+   * Runs a function that may throw, catching the error as a `Failure`.
+   * @param thunk Function to run.
+   */
+  static of<A, E = unknown>(thunk: () => A): Try<A, E> {
+    try {
+      return new Success<A, E>(thunk());
+    } catch (err) {
+      return new Failure<A, E>(err as E);
+    }
+  }
+
+  /**
+   * Alias of `Try.of`, named like `IO.from`.
+   * @param thunk Function to run.
+   */
+  static from<A, E = unknown>(thunk: () => A): Try<A, E> {
+    return Try.of<A, E>(thunk);
+  }
+
+  /**
+   * Checks whether both are `Success` with equal values, or both are `Failure`
+   * with equal errors. Both equalities default to `DefaultEq`.
+   */
+  abstract equals(other: Try<A, E>, eqA?: Eq<A>, eqE?: Eq<E>): boolean;
+
+  /**
+   * Hashes the `Try`, consistently with `equals` and `DefaultEq`.
+   */
+  abstract hashCode(): number;
+
+  /**
+   * Builds an equality of tries from equalities of the values and the errors.
+   */
+  static getEq<A, E = unknown>(
+    eqA: Eq<A>,
+    eqE: Eq<E> = DefaultEq,
+  ): Eq<Try<A, E>> {
+    return { equals: (x, y) => x.equals(y, eqA, eqE) };
+  }
+
+  /**
+   * Yields this `Try` inside `Try.gen`, evaluating to the successful value.
+   */
+  *[Symbol.iterator](): Generator<Try<A, E>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for `Try`: runs a generator where `yield*` unwraps a `Try`.
+   * The first `Failure` yielded, or any error thrown by the generator,
+   * stops it and is returned as a `Failure`.
+   * @param body Generator function describing the computation.
+   */
+  static gen<A, E = unknown>(
+    body: () => Generator<Try<any, E>, A, any>,
+  ): Try<A, E> {
+    return new Success<undefined, E>(undefined).bind(() =>
+      gen(body, (value: A) => new Success<A, E>(value)),
+    );
+  }
+
+  /**
+   * Applies a function returning a `Try` to every element, collecting the results.
+   * Stops at the first `Failure`, or at the first error thrown by the function.
+   * @param values Elements to traverse.
+   * @param func Function to apply to each element and its index.
+   */
+  static traverse<A, B, E = unknown>(
+    values: Iterable<A>,
+    func: (value: A, index: number) => Try<B, E>,
+  ): Try<B[], E> {
+    const result: B[] = [];
+    let index = 0;
+    for (const value of values) {
+      let step: Try<B[], E>;
+      try {
+        step = func(value, index++).map((b) => {
+          result.push(b);
+          return result;
+        });
+      } catch (err) {
+        return new Failure<B[], E>(err as E);
+      }
+      if (step instanceof Failure) return step;
+    }
+    return new Success<B[], E>(result);
+  }
+
+  /**
+   * Turns an array of `Try`s into a `Try` of an array, or the first `Failure`.
+   * @param tries Tries to collect.
+   */
+  static sequence<A, E = unknown>(tries: Iterable<Try<A, E>>): Try<A[], E> {
+    return Try.traverse(tries, (attempt) => attempt);
+  }
+
+  /**
+   * Applies a function returning a `Try` to every field of a record.
+   * @param record Record to traverse.
+   * @param func Function to apply to each field and its key.
+   */
+  static traverseRecord<K extends string, A, B, E = unknown>(
+    record: Record<K, A>,
+    func: (value: A, key: K) => Try<B, E>,
+  ): Try<Record<K, B>, E> {
+    const keys = Object.keys(record) as K[];
+    return Try.traverse(keys, (key) => func(record[key], key)).map((values) => {
+      const result = {} as Record<K, B>;
+      keys.forEach((key, index) => (result[key] = values[index]));
+      return result;
+    });
+  }
+
+  /**
+   * Turns a record of `Try`s into a `Try` of a record, or the first `Failure`.
+   * @param record Record of tries, one per field of the result.
+   */
+  static sequenceRecord<
+    R extends Record<string, unknown>,
+    E = unknown,
+  >(record: {
+    [K in keyof R]: Try<R[K], E>;
+  }): Try<R, E> {
+    return Try.traverseRecord(
+      record as Record<string, Try<unknown, E>>,
+      (attempt) => attempt,
+    ) as Try<R, E>;
+  }
+
+  /**
+   * Applies a function returning a `Try` to every element of a `List`.
+   * @param list List to traverse.
+   * @param func Function to apply to each element and its index.
+   */
+  static traverseList<A, B, E = unknown>(
+    list: List<A>,
+    func: (value: A, index: number) => Try<B, E>,
+  ): Try<List<B>, E> {
+    return Try.traverse(list, func).map((values) => List.fromIterable(values));
+  }
 }
 
 export class Success<A, E = unknown> extends Try<A, E> {
@@ -39,6 +342,26 @@ export class Success<A, E = unknown> extends Try<A, E> {
   recoverWith(_func: (error: E) => Try<A, E>): Try<A, E> {
     return this;
   }
+
+  match<D>({ ifSuccess }: { ifSuccess: (value: A) => D }): D {
+    return ifSuccess(this.value);
+  }
+  get(): A {
+    return this.value;
+  }
+  failed(): Try<E> {
+    return new Failure<E>(new Error("Success.failed"));
+  }
+  [util.inspect.custom]() {
+    return `Success(${this.value})`;
+  }
+
+  equals(other: Try<A, E>, eqA: Eq<A> = DefaultEq, _eqE?: Eq<E>): boolean {
+    return other instanceof Success && eqA.equals(this.value, other.value);
+  }
+  hashCode(): number {
+    return combineHash(hash("Success"), hash(this.value));
+  }
 }
 
 export class Failure<A, E = unknown> extends Try<A, E> {
@@ -69,4 +392,32 @@ export class Failure<A, E = unknown> extends Try<A, E> {
       return new Failure<A, E>(err as E);
     }
   }
+
+  match<D>({ ifFailure }: { ifFailure: (error: E) => D }): D {
+    return ifFailure(this.error);
+  }
+  get(): A {
+    throw this.error;
+  }
+  failed(): Try<E> {
+    return new Success<E>(this.error);
+  }
+  [util.inspect.custom]() {
+    return `Failure(${this.error})`;
+  }
+
+  equals(other: Try<A, E>, _eqA?: Eq<A>, eqE: Eq<E> = DefaultEq): boolean {
+    return other instanceof Failure && eqE.equals(this.error, other.error);
+  }
+  hashCode(): number {
+    return combineHash(hash("Failure"), hash(this.error));
+  }
+}
+
+export function isSuccess<A, E>(attempt: Try<A, E>): attempt is Success<A, E> {
+  return attempt instanceof Success;
+}
+
+export function isFailure<A, E>(attempt: Try<A, E>): attempt is Failure<A, E> {
+  return attempt instanceof Failure;
 }
@@ -0,0 +1,215 @@
+import HKT, { Kind } from "./HKT";
+import List, { Pair } from "./List";
+import Monoid from "./Monoid";
+
+/**
+ * Base of the typeclasses, naming their type constructor.
+ *
+ * The member is never set: it lets the compiler infer `F` when an instance is
+ * passed where a less specific typeclass is expected, e.g. a `Monad<F>` to a
+ * helper taking an `Applicative<F>`.
+ */
+export interface TypeClass<F extends HKT> {
+  readonly _F?: F;
+}
+
+/**
+ * Type constructors that can apply a function inside their values.
+ *
+ * Instances are dictionaries over an `HKT`, found in Instances.ts. Generic
+ * helpers take the instance first and return a function, so that the
+ * concrete type is known before the arguments are inferred:
+ *
+ * @example
+ * flatten(OptionMonad)(Option.pure(Option.pure(1))); // Option<number>
+ *
+ * @template F The type constructor.
+ */
+export interface Functor<F extends HKT> extends TypeClass<F> {
+  map<A, B, E>(fa: Kind<F, A, E>, func: (value: A) => B): Kind<F, B, E>;
+}
+
+/**
+ * Functors that can lift a value, and apply a function held in the type
+ * constructor to a value held in it.
+ */
+export interface Applicative<F extends HKT> extends Functor<F> {
+  of<A, E = never>(value: A): Kind<F, A, E>;
+  ap<A, B, E>(
+    ff: Kind<F, (value: A) => B, E>,
+    fa: Kind<F, A, E>,
+  ): Kind<F, B, E>;
+}
+
+/**
+ * Applicatives whose next computation can depend on the previous value.
+ */
+export interface Monad<F extends HKT> extends Applicative<F> {
+  bind<A, B, E>(
+    fa: Kind<F, A, E>,
+    func: (value: A) => Kind<F, B, E>,
+  ): Kind<F, B, E>;
+}
+
+/**
+ * Type constructors whose values can be folded, from the first to the last.
+ */
+export interface Foldable<F extends HKT> extends TypeClass<F> {
+  foldLeft<A, B, E>(
+    fa: Kind<F, A, E>,
+    seed: B,
+    func: (acc: B, value: A) => B,
+  ): B;
+}
+
+/**
+ * Foldable functors whose values can be mapped to an applicative effect, and
+ * the effects run in order.
+ */
+export interface Traversable<F extends HKT> extends Functor<F>, Foldable<F> {
+  traverse<G extends HKT>(
+    G: Applicative<G>,
+  ): <A, B, E, EG>(
+    fa: Kind<F, A, E>,
+    func: (value: A) => Kind<G, B, EG>,
+  ) => Kind<G, Kind<F, B, E>, EG>;
+}
+
+/**
+ * Applies a function held in an applicative to a value held in it.
+ */
+export function ap<F extends HKT>(
+  F: Applicative<F>,
+): <A, B, E>(
+  ff: Kind<F, (value: A) => B, E>,
+  fa: Kind<F, A, E>,
+) => Kind<F, B, E> {
+  return (ff, fa) => F.ap(ff, fa);
+}
+
+/**
+ * Lifts a function of two arguments to an applicative.
+ *
+ * @example
+ * liftA2(OptionMonad)((a: number, b: number) => a + b)(
+ *   Option.pure(1),
+ *   Option.pure(2),
+ * ); // Some(3)
+ */
+export function liftA2<F extends HKT>(
+  F: Applicative<F>,
+): <A, B, C>(
+  func: (a: A, b: B) => C,
+) => <E>(fa: Kind<F, A, E>, fb: Kind<F, B, E>) => Kind<F, C, E> {
+  return <A, B, C>(func: (a: A, b: B) => C) =>
+    <E>(fa: Kind<F, A, E>, fb: Kind<F, B, E>) =>
+      F.ap(
+        F.map(fa, (a) => (b: B) => func(a, b)),
+        fb,
+      );
+}
+
+/**
+ * Removes one level of nesting from a monad of a monad.
+ */
+export function flatten<F extends HKT>(
+  M: Monad<F>,
+): <A, E>(mma: Kind<F, Kind<F, A, E>, E>) => Kind<F, A, E> {
+  return (mma) => M.bind(mma, (ma) => ma);
+}
+
+/**
+ * Runs an effect only if a condition holds, or does nothing.
+ */
+export function when<F extends HKT>(
+  F: Applicative<F>,
+): <E>(condition: boolean, fa: Kind<F, void, E>) => Kind<F, void, E> {
+  return (condition, fa) => (condition ? fa : F.of(undefined));
+}
+
+/**
+ * Runs an effect only if a condition does not hold, or does nothing.
+ */
+export function unless<F extends HKT>(
+  F: Applicative<F>,
+): <E>(condition: boolean, fa: Kind<F, void, E>) => Kind<F, void, E> {
+  return (condition, fa) => when(F)(!condition, fa);
+}
+
+/**
+ * Folds values with a function returning a monad, from the first value to
+ * the last, each step starting after the previous one.
+ */
+export function foldM<F extends HKT>(
+  M: Monad<F>,
+): <A, B, E>(
+  values: Iterable<A>,
+  seed: B,
+  func: (acc: B, value: A) => Kind<F, B, E>,
+) => Kind<F, B, E> {
+  return <A, B, E>(
+    values: Iterable<A>,
+    seed: B,
+    func: (acc: B, value: A) => Kind<F, B, E>,
+  ) => {
+    let result = M.of<B, E>(seed);
+    for (const value of values)
+      result = M.bind(result, (acc: B) => func(acc, value));
+    return result;
+  };
+}
+
+/**
+ * Runs the effects of an array in order, collecting their results.
+ */
+export function sequence<F extends HKT>(
+  F: Applicative<F>,
+): <A, E>(fas: Kind<F, A, E>[]) => Kind<F, A[], E> {
+  return <A, E>(fas: Kind<F, A, E>[]) => {
+    // Collect into a reversed List, so that each step is a constant-time prepend
+    const prepend = liftA2(F)(
+      (values: List<A>, value: A): List<A> => new Pair(value, values),
+    );
+    return F.map(
+      fas.reduce((acc, fa) => prepend(acc, fa), F.of<List<A>, E>(List.of<A>())),
+      (values: List<A>) => values.reverse().toArray(),
+    );
+  };
+}
+
+/**
+ * Runs an effect a number of times, collecting the results.
+ */
+export function replicateM<F extends HKT>(
+  F: Applicative<F>,
+): <A, E>(count: number, fa: Kind<F, A, E>) => Kind<F, A[], E> {
+  return (count, fa) =>
+    sequence(F)(Array.from({ length: Math.max(count, 0) }, () => fa));
+}
+
+/**
+ * Maps every value held in a foldable to a monoid, and combines them.
+ */
+export function foldMap<F extends HKT>(
+  F: Foldable<F>,
+): <M>(
+  monoid: Monoid<M>,
+) => <A, E>(fa: Kind<F, A, E>, func: (value: A) => M) => M {
+  return (monoid) => (fa, func) =>
+    F.foldLeft(fa, monoid.pure, (acc, value) =>
+      monoid.combine(acc, func(value)),
+    );
+}
+
+/**
+ * Collects the values held in a foldable into an array.
+ */
+export function toArray<F extends HKT>(
+  F: Foldable<F>,
+): <A, E>(fa: Kind<F, A, E>) => A[] {
+  return <A, E>(fa: Kind<F, A, E>) =>
+    F.foldLeft(fa, [] as A[], (acc, value) => {
+      acc.push(value);
+      return acc;
+    });
+}
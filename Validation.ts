@@ -0,0 +1,396 @@
+import { Decoder, field, tagged } from "./Decoder";
+import Either from "./Either";
+import Monoid from "./Monoid";
+
+/**
+ * The JSON format of a `Validation`.
+ */
+export type ValidationJSON<E, A> =
+  { _tag: "Invalid"; errors: E } | { _tag: "Valid"; value: A };
+
+/**
+ * Represents the result of a validation: either `Valid` with a value, or
+ * `Invalid` with the errors found.
+ *
+ * Unlike `Either`, which stops at the first `Left`, combining validations with
+ * `ap`, `mapN` or `sequence` runs all of them and accumulates every error
+ * through a `Monoid<E>`. This is why `Validation` is an applicative and not a
+ * `Monad`: `andThen` is provided for dependent steps, but it cannot accumulate.
+ *
+ * @template E - Type of the accumulated errors, combined with a Monoid.
+ * @template A - Type of the validated value.
+ */
+export default abstract class Validation<E, A> {
+  /**
+   * Applies one of two functions based on whether this is Invalid or Valid.
+   *
+   * @template D
+   * @param {{ ifInvalid: (errors: E) => D; ifValid: (value: A) => D }} cond - Match arms for both cases.
+   * @returns {D}
+   */
+  abstract match<D>(cond: {
+    ifInvalid: (errors: E) => D;
+    ifValid: (value: A) => D;
+  }): D;
+
+  /**
+   * Maps the valid value using a function.
+   *
+   * @template B
+   * @param {(value: A) => B} func - Function to transform the value.
+   * @returns {Validation<E, B>}
+   */
+  map<B>(func: (value: A) => B): Validation<E, B> {
+    return this.match({
+      ifInvalid: (errors) => Validation.invalid<E, B>(errors),
+      ifValid: (value) => Validation.valid<E, B>(func(value)),
+    });
+  }
+
+  /**
+   * Maps the errors using a function.
+   *
+   * @template F
+   * @param {(errors: E) => F} func - Function to transform the errors.
+   * @returns {Validation<F, A>}
+   */
+  mapErrors<F>(func: (errors: E) => F): Validation<F, A> {
+    return this.match({
+      ifInvalid: (errors) => Validation.invalid<F, A>(func(errors)),
+      ifValid: (value) => Validation.valid<F, A>(value),
+    });
+  }
+
+  /**
+   * Applies a validated function to a validated value.
+   * If both are Invalid, their errors are combined, this one's first.
+   *
+   * @template T, B
+   * @param {Validation<E, T>} other - Validated argument of the function.
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @returns {Validation<E, B>}
+   */
+  ap<T, B>(
+    this: Validation<E, (value: T) => B>,
+    other: Validation<E, T>,
+    monoid: Monoid<E>,
+  ): Validation<E, B> {
+    return this.match({
+      ifInvalid: (errors) =>
+        other.match({
+          ifInvalid: (otherErrors) =>
+            Validation.invalid<E, B>(monoid.combine(errors, otherErrors)),
+          ifValid: (_value) => Validation.invalid<E, B>(errors),
+        }),
+      ifValid: (func) => other.map(func),
+    });
+  }
+
+  /**
+   * Chains a validation depending on the valid value.
+   * This stops at the first Invalid, so errors are not accumulated.
+   *
+   * @template B
+   * @param {(value: A) => Validation<E, B>} func - Next validation step.
+   * @returns {Validation<E, B>}
+   */
+  andThen<B>(func: (value: A) => Validation<E, B>): Validation<E, B> {
+    return this.match({
+      ifInvalid: (errors) => Validation.invalid<E, B>(errors),
+      ifValid: func,
+    });
+  }
+
+  /**
+   * Returns the valid value or a default.
+   *
+   * @param {A} defaultValue - Value to return if this is Invalid.
+   * @returns {A}
+   */
+  getOrElse(defaultValue: A): A {
+    return this.match({
+      ifInvalid: (_errors) => defaultValue,
+      ifValid: (value) => value,
+    });
+  }
+
+  /**
+   * Converts to an Either, with the errors on the Left.
+   *
+   * @returns {Either<E, A>}
+   */
+  toEither(): Either<E, A> {
+    return this.match({
+      ifInvalid: (errors) => Either.asLeft<E, A>(errors),
+      ifValid: (value) => Either.asRight<E, A>(value),
+    });
+  }
+
+  /**
+   * Converts to the tagged JSON format, called by `JSON.stringify`.
+   *
+   * @returns {ValidationJSON<E, A>} `{ _tag: "Invalid", errors }` or `{ _tag: "Valid", value }`.
+   */
+  toJSON(): ValidationJSON<E, A> {
+    return this.match<ValidationJSON<E, A>>({
+      ifInvalid: (errors) => ({ _tag: "Invalid", errors }),
+      ifValid: (value) => ({ _tag: "Valid", value }),
+    });
+  }
+
+  /**
+   * Builds a decoder of validations written by `toJSON`.
+   *
+   * @template E, A
+   * @param {Decoder<E>} decodeE - Decoder of the errors.
+   * @param {Decoder<A>} decodeA - Decoder of the valid value.
+   * @returns {Decoder<Validation<E, A>>}
+   */
+  static fromJSON<E, A>(
+    decodeE: Decoder<E>,
+    decodeA: Decoder<A>,
+  ): Decoder<Validation<E, A>> {
+    return tagged<Validation<E, A>>("a Validation", {
+      Invalid: (input) =>
+        field(input, "errors", decodeE).map((errors) =>
+          Validation.invalid<E, A>(errors),
+        ),
+      Valid: (input) =>
+        field(input, "value", decodeA).map((value) =>
+          Validation.valid<E, A>(value),
+        ),
+    });
+  }
+
+  /**
+   * Constructs a Valid.
+   *
+   * @template E, A
+   * @param {A} value - The valid value.
+   * @returns {Validation<E, A>}
+   */
+  static valid<E, A>(value: A): Validation<E, A> {
+    return new Valid<E, A>(value);
+  }
+
+  /**
+   * Constructs an Invalid.
+   *
+   * @template E, A
+   * @param {E} errors - The errors found.
+   * @returns {Validation<E, A>}
+   */
+  static invalid<E, A>(errors: E): Validation<E, A> {
+    return new Invalid<E, A>(errors);
+  }
+
+  /**
+   * Constructs a Validation from an Either, with the Left as errors.
+   *
+   * @template E, A
+   * @param {Either<E, A>} either - Either to convert.
+   * @returns {Validation<E, A>}
+   */
+  static fromEither<E, A>(either: Either<E, A>): Validation<E, A> {
+    return either.match({
+      ifLeft: (errors) => Validation.invalid<E, A>(errors),
+      ifRight: (value) => Validation.valid<E, A>(value),
+    });
+  }
+
+  /**
+   * Combines two validations with a function, accumulating their errors.
+   *
+   * @template E, A, B, C
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @param {Validation<E, A>} first
+   * @param {Validation<E, B>} second
+   * @param {(a: A, b: B) => C} func - Function combining the valid values.
+   * @returns {Validation<E, C>}
+   */
+  static map2<E, A, B, C>(
+    monoid: Monoid<E>,
+    first: Validation<E, A>,
+    second: Validation<E, B>,
+    func: (a: A, b: B) => C,
+  ): Validation<E, C> {
+    return Validation.mapN(monoid, [first, second], func);
+  }
+
+  /**
+   * Combines three validations with a function, accumulating their errors.
+   *
+   * @template E, A, B, C, D
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @param {Validation<E, A>} first
+   * @param {Validation<E, B>} second
+   * @param {Validation<E, C>} third
+   * @param {(a: A, b: B, c: C) => D} func - Function combining the valid values.
+   * @returns {Validation<E, D>}
+   */
+  static map3<E, A, B, C, D>(
+    monoid: Monoid<E>,
+    first: Validation<E, A>,
+    second: Validation<E, B>,
+    third: Validation<E, C>,
+    func: (a: A, b: B, c: C) => D,
+  ): Validation<E, D> {
+    return Validation.mapN(monoid, [first, second, third], func);
+  }
+
+  /**
+   * Combines any number of validations with a function, accumulating their errors.
+   *
+   * @template E, T, B
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @param validations - Tuple of validations, one per argument of `func`.
+   * @param {(...values: T) => B} func - Function combining the valid values.
+   * @returns {Validation<E, B>}
+   *
+   * @example
+   * Validation.mapN(
+   *   ListMonoid<string>(),
+   *   [validateName(input.name), validateAge(input.age)],
+   *   (name, age) => ({ name, age }),
+   * );
+   */
+  static mapN<E, T extends unknown[], B>(
+    monoid: Monoid<E>,
+    validations: [...{ [K in keyof T]: Validation<E, T[K]> }],
+    func: (...values: T) => B,
+  ): Validation<E, B> {
+    return Validation.sequence(
+      monoid,
+      validations as Validation<E, unknown>[],
+    ).map((values) => func(...(values as T)));
+  }
+
+  /**
+   * Turns an array of validations into a validation of an array,
+   * accumulating the errors of all Invalid elements in order.
+   *
+   * @template E, A
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @param {Validation<E, A>[]} validations
+   * @returns {Validation<E, A[]>}
+   */
+  static sequence<E, A>(
+    monoid: Monoid<E>,
+    validations: Validation<E, A>[],
+  ): Validation<E, A[]> {
+    let errors: E | undefined = undefined;
+    let failed = false;
+    const values: A[] = [];
+
+    for (const validation of validations)
+      validation.match({
+        ifInvalid: (found) => {
+          errors = failed ? monoid.combine(errors as E, found) : found;
+          failed = true;
+        },
+        ifValid: (value) => {
+          values.push(value);
+        },
+      });
+
+    return failed
+      ? Validation.invalid<E, A[]>(errors as E)
+      : Validation.valid<E, A[]>(values);
+  }
+
+  /**
+   * Turns a record of validations into a validation of a record,
+   * accumulating the errors of all Invalid fields in key order.
+   *
+   * @template E, R
+   * @param {Monoid<E>} monoid - Monoid combining the errors.
+   * @param record - Record of validations, one per field of the result.
+   * @returns {Validation<E, R>}
+   */
+  static sequenceRecord<E, R extends Record<string, unknown>>(
+    monoid: Monoid<E>,
+    record: { [K in keyof R]: Validation<E, R[K]> },
+  ): Validation<E, R> {
+    const keys = Object.keys(record) as (keyof R & string)[];
+    return Validation.sequence(
+      monoid,
+      keys.map((key) => record[key] as Validation<E, unknown>),
+    ).map((values) => {
+      // Defined rather than assigned, so that a "__proto__" key stays a field
+      const result = {} as R;
+      keys.forEach((key, index) =>
+        Object.defineProperty(result, key, {
+          value: values[index],
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        }),
+      );
+      return result;
+    });
+  }
+}
+
+/**
+ * Represents a successful validation.
+ *
+ * @template E, A
+ * @extends {Validation<E, A>}
+ */
+export class Valid<E, A> extends Validation<E, A> {
+  /**
+   * @param {A} value - The valid value.
+   */
+  constructor(private value: A) {
+    super();
+  }
+
+  match<D>({ ifValid }: { ifValid: (value: A) => D }): D {
+    return ifValid(this.value);
+  }
+}
+
+/**
+ * Represents a failed validation.
+ *
+ * @template E, A
+ * @extends {Validation<E, A>}
+ */
+export class Invalid<E, A> extends Validation<E, A> {
+  /**
+   * @param {E} errors - The errors found.
+   */
+  constructor(private errors: E) {
+    super();
+  }
+
+  match<D>({ ifInvalid }: { ifInvalid: (errors: E) => D }): D {
+    return ifInvalid(this.errors);
+  }
+}
+
+/**
+ * Type guard for Valid.
+ *
+ * @template E, A
+ * @param {Validation<E, A>} validation
+ * @returns {validation is Valid<E, A>}
+ */
+export function isValid<E, A>(
+  validation: Validation<E, A>,
+): validation is Valid<E, A> {
+  return validation instanceof Valid;
+}
+
+/**
+ * Type guard for Invalid.
+ *
+ * @template E, A
+ * @param {Validation<E, A>} validation
+ * @returns {validation is Invalid<E, A>}
+ */
+export function isInvalid<E, A>(
+  validation: Validation<E, A>,
+): validation is Invalid<E, A> {
+  return validation instanceof Invalid;
+}
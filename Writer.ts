@@ -1,31 +1,71 @@
-import assert from "assert";
+import { Sum } from "./ADTs";
+import gen from "./Do";
+import Eq, { DefaultEq } from "./Eq";
+import { combineHash, hash } from "./Hash";
 import Monad from "./Monad";
 import Monoid from "./Monoid";
 
+/**
+ * The log of a `Writer`, kept as a tree of uncombined chunks:
+ * - `Empty`: no log.
+ * - `Leaf`: a single log value.
+ * - `Append`: a log followed by another.
+ *
+ * Appending is a constant-time node allocation; the chunks are only combined
+ * with the monoid when the log is read.
+ */
+type Chunks<W> = Sum<{
+  Empty: {};
+  Leaf: { log: W };
+  Append: { left: Chunks<W>; right: Chunks<W> };
+}>;
+
 /**
  * Writer monad allows values to be paired with a log (or accumulated context).
  *
  * It is useful for computations that produce a result along with some additional
  * output, like debug logs, accumulated metadata, or audit trails.
  *
+ * Logs are accumulated lazily: `bind` and `tell` only record the new chunk,
+ * and the chunks are combined once, when `log` or `run()` is first read.
+ * Combining is done pairwise, so a `ListMonoid` log of n entries costs
+ * O(n log n) instead of copying the whole array at every step.
+ *
  * @template W - Type of the log, which must form a Monoid.
  * @template A - Type of the wrapped value.
  */
 export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
+  /**
+   * The combined log, once it has been read.
+   * @private
+   */
+  private combined?: { log: W };
+
   /**
    * Constructs a new Writer instance. Typically you should use `Writer.of()` instead.
    *
    * @param {A} value - The computed value.
-   * @param {W} log - The log context associated with the computation.
+   * @param {Chunks<W>} chunks - The uncombined log of the computation.
    * @param {Monoid<W>} monoid - Monoid instance to handle log combination.
    * @private
    */
   private constructor(
     public readonly value: A,
-    public readonly log: W,
+    private chunks: Chunks<W>,
     public readonly monoid: Monoid<W>,
   ) {}
 
+  /**
+   * The log context associated with the computation, combined on first access.
+   *
+   * @returns {W}
+   */
+  get log(): W {
+    if (this.combined === undefined)
+      this.combined = { log: combineChunks(this.chunks, this.monoid) };
+    return this.combined.log;
+  }
+
   /**
    * Chains the current computation with another `Writer`, combining logs using the monoid.
    *
@@ -35,6 +75,10 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
    * The provided `make` helper function ensures that new `Writer` instances are created
    * with the correct monoid, so you don't have to pass the monoid manually.
    *
+   * The log types must match, which the compiler checks. The logs of both Writers
+   * are kept as chunks and combined with this Writer's monoid, so the monoid the
+   * returned Writer was created with is never used to combine them.
+   *
    * @template B - The type of the resulting value after applying `func`.
    * @param {(value: A, make: <T>(value: T, log: W) => Writer<W, T>) => Writer<W, B>} func
    * A function that takes the current value and a helper `make` function to produce the next Writer.
@@ -55,13 +99,15 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
       make: <T>(value: T, log: W) => Writer<W, T>,
     ) => Writer<W, B>,
   ): Writer<W, B> {
-    const make = <T>(value: T, log: W) => new Writer(value, log, this.monoid);
+    const make = <T>(value: T, log: W) =>
+      new Writer(value, leaf(log), this.monoid);
     const result = func(this.value, make);
 
-    assert(result.monoid === this.monoid, "Must have the same monoid");
-
-    const combinedLog = this.monoid.combine(this.log, result.log);
-    return new Writer(result.value, combinedLog, this.monoid);
+    return new Writer(
+      result.value,
+      append(this.chunks, result.chunks),
+      this.monoid,
+    );
   }
 
   /**
@@ -72,7 +118,7 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
    * @returns {Writer<W, B>}
    */
   map<B>(func: (value: A) => B): Writer<W, B> {
-    return new Writer<W, B>(func(this.value), this.log, this.monoid);
+    return new Writer<W, B>(func(this.value), this.chunks, this.monoid);
   }
 
   /**
@@ -84,7 +130,7 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
    * @returns {Writer<W, A>}
    */
   static of<W, A>(value: A, monoid: Monoid<W>): Writer<W, A> {
-    return new Writer<W, A>(value, monoid.pure, monoid);
+    return new Writer<W, A>(value, { _type: "Empty" }, monoid);
   }
 
   /**
@@ -94,8 +140,136 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
    * @returns {Writer<W, A>}
    */
   tell(log: W): Writer<W, A> {
-    const newLog = this.monoid.combine(this.log, log);
-    return new Writer<W, A>(this.value, newLog, this.monoid);
+    return new Writer<W, A>(
+      this.value,
+      append(this.chunks, leaf(log)),
+      this.monoid,
+    );
+  }
+
+  /**
+   * Exposes the log of this Writer as part of its value.
+   *
+   * @returns {Writer<W, [A, W]>} A Writer with the same log, whose value is paired with it.
+   */
+  listen(): Writer<W, [A, W]> {
+    return new Writer<W, [A, W]>(
+      [this.value, this.log],
+      this.chunks,
+      this.monoid,
+    );
+  }
+
+  /**
+   * Applies the function held in the value to the log.
+   *
+   * @template B
+   * @param {Writer<W, [B, (log: W) => W]>} this - Writer holding a value and a log transformation.
+   * @returns {Writer<W, B>}
+   */
+  pass<B>(this: Writer<W, [B, (log: W) => W]>): Writer<W, B> {
+    const [value, func] = this.value;
+    return new Writer<W, B>(value, leaf(func(this.log)), this.monoid);
+  }
+
+  /**
+   * Transforms the log accumulated so far, keeping the value.
+   *
+   * @param {(log: W) => W} func - Function to apply to the log.
+   * @returns {Writer<W, A>}
+   *
+   * @example
+   * Writer.of(1, ListMonoid<string>())
+   *   .tell(["password: hunter2"])
+   *   .censor((log) => log.filter((entry) => !entry.startsWith("password")));
+   */
+  censor(func: (log: W) => W): Writer<W, A> {
+    return new Writer<W, A>(this.value, leaf(func(this.log)), this.monoid);
+  }
+
+  /**
+   * Transforms the log into another type, with its own monoid.
+   *
+   * @template V
+   * @param {(log: W) => V} func - Function to apply to the log.
+   * @param {Monoid<V>} monoid - Monoid instance for the new log type.
+   * @returns {Writer<V, A>}
+   */
+  mapLog<V>(func: (log: W) => V, monoid: Monoid<V>): Writer<V, A> {
+    return new Writer<V, A>(this.value, leaf(func(this.log)), monoid);
+  }
+
+  /**
+   * Yields this Writer inside `Writer.gen`, evaluating to its value.
+   *
+   * @returns {Generator<Writer<W, A>, A, any>}
+   */
+  *[Symbol.iterator](): Generator<Writer<W, A>, A, any> {
+    return yield this;
+  }
+
+  /**
+   * Do-notation for Writer: runs a generator where `yield*` unwraps a Writer,
+   * accumulating the logs of all yielded Writers in order.
+   *
+   * @template W, A
+   * @param {Monoid<W>} monoid - Monoid shared by all yielded Writers.
+   * @param {() => Generator<Writer<W, any>, A, any>} body - Generator function describing the computation.
+   * @returns {Writer<W, A>}
+   *
+   * @example
+   * const writer = Writer.gen(StringConcatMonoid, function* () {
+   *   const a = yield* Writer.of(2, StringConcatMonoid).tell("two ");
+   *   const b = yield* Writer.of(3, StringConcatMonoid).tell("three");
+   *   return a * b;
+   * });
+   *
+   * console.log(writer.run()); // [6, "two three"]
+   */
+  static gen<W, A>(
+    monoid: Monoid<W>,
+    body: () => Generator<Writer<W, any>, A, any>,
+  ): Writer<W, A> {
+    return gen(body, (value: A) => Writer.of(value, monoid));
+  }
+
+  /**
+   * Checks whether two Writers hold equal values and equal logs.
+   *
+   * @param {Writer<W, A>} other - Writer to compare with.
+   * @param {Eq<A>} eqA - Equality of the values, `DefaultEq` by default.
+   * @param {Eq<W>} eqW - Equality of the logs, `DefaultEq` by default.
+   * @returns {boolean}
+   */
+  equals(
+    other: Writer<W, A>,
+    eqA: Eq<A> = DefaultEq,
+    eqW: Eq<W> = DefaultEq,
+  ): boolean {
+    return (
+      eqA.equals(this.value, other.value) && eqW.equals(this.log, other.log)
+    );
+  }
+
+  /**
+   * Hashes the Writer, consistently with `equals` and `DefaultEq`.
+   *
+   * @returns {number} A 32-bit hash.
+   */
+  hashCode(): number {
+    return combineHash(hash(this.value), hash(this.log));
+  }
+
+  /**
+   * Builds an equality of Writers from equalities of the values and the logs.
+   *
+   * @template W, A
+   * @param {Eq<A>} eqA - Equality of the values.
+   * @param {Eq<W>} eqW - Equality of the logs.
+   * @returns {Eq<Writer<W, A>>}
+   */
+  static getEq<W, A>(eqA: Eq<A>, eqW: Eq<W>): Eq<Writer<W, A>> {
+    return { equals: (x, y) => x.equals(y, eqA, eqW) };
   }
 
   /**
@@ -107,3 +281,53 @@ export default class Writer<W, A> implements Monad<A, Writer<W, A>> {
     return [this.value, this.log];
   }
 }
+
+/**
+ * Builds a single-chunk log.
+ */
+function leaf<W>(log: W): Chunks<W> {
+  return { _type: "Leaf", log };
+}
+
+/**
+ * Appends two logs, skipping empty ones.
+ */
+function append<W>(left: Chunks<W>, right: Chunks<W>): Chunks<W> {
+  if (left._type === "Empty") return right;
+  if (right._type === "Empty") return left;
+  return { _type: "Append", left, right };
+}
+
+/**
+ * Combines the chunks of a log with a monoid, in order.
+ *
+ * The tree is walked with an explicit stack, since `bind` chains produce trees
+ * as deep as the chain. The chunks are then combined pairwise, which keeps the
+ * values passed to `combine` balanced in size.
+ */
+function combineChunks<W>(chunks: Chunks<W>, monoid: Monoid<W>): W {
+  let logs: W[] = [];
+  const stack: Chunks<W>[] = [chunks];
+
+  while (stack.length > 0) {
+    const node = stack.pop() as Chunks<W>;
+    switch (node._type) {
+      case "Append":
+        stack.push(node.right, node.left);
+        break;
+      case "Leaf":
+        logs.push(node.log);
+        break;
+    }
+  }
+
+  if (logs.length === 0) return monoid.pure;
+  while (logs.length > 1) {
+    const next: W[] = [];
+    for (let i = 0; i + 1 < logs.length; i += 2)
+      next.push(monoid.combine(logs[i], logs[i + 1]));
+    if (logs.length % 2 === 1) next.push(logs[logs.length - 1]);
+    logs = next;
+  }
+  return logs[0];
+}
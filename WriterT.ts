@@ -0,0 +1,174 @@
+import HKT, { Kind } from "./HKT";
+import Monad from "./Monad";
+import Monoid from "./Monoid";
+import { Monad as MonadInstance } from "./Typeclass";
+
+/**
+ * The type constructor of `WriterT` over the effect `F`, with log type `W`.
+ */
+export interface WriterTKind<F extends HKT, W> extends HKT {
+  readonly type: WriterT<F, W, this["A"]>;
+}
+
+/**
+ * Monad transformer adding a log to an effect: a `WriterT<F, W, A>` wraps a
+ * `Kind<F, [A, W]>`, such as an `IO<[A, W]>`.
+ *
+ * Binding runs the effects in order and combines their logs with a Monoid,
+ * like `Writer` does for pure values.
+ *
+ * @template F The type constructor of the underlying effect.
+ * @template W The type of the log, which must form a Monoid.
+ * @template A The type of the value.
+ */
+export default class WriterT<F extends HKT, W, A> implements Monad<
+  A,
+  WriterT<F, W, A>
+> {
+  /**
+   * Constructs a new WriterT. Use `WriterT.of`, `WriterT.lift` or
+   * `WriterT.tell` instead.
+   * @param effect The instance of the underlying effect.
+   * @param monoid Monoid instance to handle log combination.
+   * @param value The wrapped effect producing a value and a log.
+   */
+  private constructor(
+    private effect: MonadInstance<F>,
+    private monoid: Monoid<W>,
+    private value: Kind<F, [A, W]>,
+  ) {}
+
+  /**
+   * Unwraps the underlying effect.
+   *
+   * @returns The effect producing the value and the log.
+   */
+  run(): Kind<F, [A, W]> {
+    return this.value;
+  }
+
+  /**
+   * Sequences a computation depending on the value, appending its log.
+   *
+   * @template B The type of the next value.
+   * @param func Function mapping a value to the next WriterT.
+   * @returns A new WriterT representing the sequential composition.
+   */
+  bind<B>(func: (value: A) => WriterT<F, W, B>): WriterT<F, W, B> {
+    return new WriterT<F, W, B>(
+      this.effect,
+      this.monoid,
+      this.effect.bind(this.value, ([value, log]: [A, W]) =>
+        this.effect.map(
+          func(value).value,
+          ([next, nextLog]: [B, W]): [B, W] => [
+            next,
+            this.monoid.combine(log, nextLog),
+          ],
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Applies a pure function to the value, keeping the log.
+   *
+   * @template B The type of the transformed value.
+   * @param func Function to transform the value.
+   * @returns A new WriterT containing the transformed value.
+   */
+  map<B>(func: (value: A) => B): WriterT<F, W, B> {
+    return new WriterT<F, W, B>(
+      this.effect,
+      this.monoid,
+      this.effect.map(this.value, ([value, log]: [A, W]): [B, W] => [
+        func(value),
+        log,
+      ]),
+    );
+  }
+
+  /**
+   * Appends an entry to the log.
+   *
+   * @param log Log to append.
+   * @returns A new WriterT with the extended log.
+   */
+  tell(log: W): WriterT<F, W, A> {
+    return this.bind((value) =>
+      WriterT.tell(this.effect, this.monoid, log).map(() => value),
+    );
+  }
+
+  /**
+   * Lifts a pure value into the effect, with an empty log.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param monoid Monoid instance for the log type.
+   * @param value The value to lift.
+   */
+  static of<F extends HKT, W, A>(
+    effect: MonadInstance<F>,
+    monoid: Monoid<W>,
+    value: A,
+  ): WriterT<F, W, A> {
+    return new WriterT<F, W, A>(
+      effect,
+      monoid,
+      effect.of([value, monoid.pure]),
+    );
+  }
+
+  /**
+   * Returns a WriterT only writing to the log.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param monoid Monoid instance for the log type.
+   * @param log The log entry.
+   */
+  static tell<F extends HKT, W>(
+    effect: MonadInstance<F>,
+    monoid: Monoid<W>,
+    log: W,
+  ): WriterT<F, W, void> {
+    return new WriterT<F, W, void>(effect, monoid, effect.of([undefined, log]));
+  }
+
+  /**
+   * Lifts an effect, with an empty log.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param monoid Monoid instance for the log type.
+   * @param fa The effect to lift.
+   */
+  static lift<F extends HKT, W, A>(
+    effect: MonadInstance<F>,
+    monoid: Monoid<W>,
+    fa: Kind<F, A>,
+  ): WriterT<F, W, A> {
+    return new WriterT<F, W, A>(
+      effect,
+      monoid,
+      effect.map(fa, (value: A): [A, W] => [value, monoid.pure]),
+    );
+  }
+
+  /**
+   * Returns the Monad instance of WriterT over `F`, so that other
+   * transformers can be stacked on top of it.
+   *
+   * @param effect The instance of the underlying effect.
+   * @param monoid Monoid instance for the log type.
+   */
+  static monad<F extends HKT, W>(
+    effect: MonadInstance<F>,
+    monoid: Monoid<W>,
+  ): MonadInstance<WriterTKind<F, W>> {
+    return {
+      of: (value) => WriterT.of(effect, monoid, value),
+      map: (fa, func) => fa.map(func),
+      ap: (ff, fa) => ff.bind((func) => fa.map(func)),
+      bind: (fa, func) => fa.bind(func),
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import {
+  Sum,
+  defineADT,
+  makeConstructors,
+  match,
+  matchPartial,
+  on,
+  when,
+} from "../ADTs";
+import { array, formatDecodeError, number, string, struct } from "../Decoder";
+import Option, { None, isNone } from "../Option";
+import Either, { isLeft } from "../Either";
+import { Failure, Success } from "../Try";
+import { expect, test } from "@jest/globals";
+
+type Shape = Sum<{
+  Circle: { radius: number };
+  Rectangle: { width: number; height: number };
+  Triangle: { base: number; height: number };
+}>;
+const Shape = makeConstructors<Shape>();
+
+type Drawing = Sum<{
+  Single: { shape: Shape; label: Option<string> };
+  Group: { shapes: Shape[] };
+}>;
+const Drawing = makeConstructors<Drawing>();
+
+const circle = Shape.Circle({ radius: 1 });
+const square = Shape.Rectangle({ width: 2, height: 2 });
+const triangle = Shape.Triangle({ base: 2, height: 3 });
+
+test("ADTs match with a handler per variant", () => {
+  const area = (shape: Shape): number =>
+    match(shape, {
+      Circle: ({ radius }) => 3 * radius ** 2,
+      Rectangle: ({ width, height }) => width * height,
+      Triangle: ({ base, height }) => (base * height) / 2,
+    });
+  expect([circle, square, triangle].map(area)).toEqual([3, 4, 3]);
+});
+
+test("ADTs match with a wildcard", () => {
+  const name = (shape: Shape): string =>
+    match(shape, {
+      Circle: () => "circle",
+      _: (other) => `polygon ${other._type}`,
+    });
+  expect(name(circle)).toEqual("circle");
+  expect(name(triangle)).toEqual("polygon Triangle");
+});
+
+test("ADTs match with guards", () => {
+  const describe = (shape: Shape) =>
+    match(shape, {
+      Circle: [
+        when(
+          ({ radius }) => radius === 0,
+          () => "point",
+        ),
+        () => "circle",
+      ],
+      Rectangle: [
+        when(
+          ({ width, height }) => width === height,
+          () => "square",
+        ),
+        when(
+          ({ width }) => width > 10,
+          () => "wide",
+        ),
+      ],
+      _: () => "other",
+    });
+
+  expect(describe(Shape.Circle({ radius: 0 }))).toEqual("point");
+  expect(describe(circle)).toEqual("circle");
+  expect(describe(square)).toEqual("square");
+  expect(describe(Shape.Rectangle({ width: 20, height: 1 }))).toEqual("wide");
+  // No guard holds, so the wildcard handles it
+  expect(describe(Shape.Rectangle({ width: 2, height: 1 }))).toEqual("other");
+  expect(describe(triangle)).toEqual("other");
+});
+
+test("ADTs match requires a final case without the wildcard", () => {
+  const describe = (shape: Shape) =>
+    match(shape, {
+      Circle: () => "circle",
+      // @ts-expect-error The cases of Rectangle may all fail to match
+      Rectangle: [
+        when(
+          ({ width }) => width === 0,
+          () => "empty",
+        ),
+      ],
+      Triangle: () => "triangle",
+    });
+  expect(() => describe(square)).toThrow(
+    "No case matched the variant Rectangle",
+  );
+});
+
+test("ADTs match nested patterns", () => {
+  const describe = (drawing: Drawing) =>
+    match(drawing, {
+      Single: [
+        on({ shape: { _type: "Circle", radius: 0 } }, () => "a point"),
+        on(
+          {
+            shape: { _type: "Circle" },
+            label: { _type: "Some", value: "sun" },
+          },
+          () => "the sun",
+        ),
+        on({ label: { _type: "None" } }, ({ shape }) => `a ${shape._type}`),
+        ({ shape, label }) => `a ${shape._type} named ${label.getOrElse("")}`,
+      ],
+      Group: [
+        on({ shapes: { length: 0 } }, () => "nothing"),
+        on({ shapes: { 0: { _type: "Triangle", base: 2 } } }, () => "a roof"),
+        ({ shapes }) => `${shapes.length} shapes`,
+      ],
+    });
+
+  expect(
+    describe(
+      Drawing.Single({ shape: Shape.Circle({ radius: 0 }), label: None.get() }),
+    ),
+  ).toEqual("a point");
+  expect(
+    describe(Drawing.Single({ shape: circle, label: Option.pure("sun") })),
+  ).toEqual("the sun");
+  expect(
+    describe(Drawing.Single({ shape: square, label: None.get() })),
+  ).toEqual("a Rectangle");
+  expect(
+    describe(Drawing.Single({ shape: square, label: Option.pure("sun") })),
+  ).toEqual("a Rectangle named sun");
+  expect(describe(Drawing.Group({ shapes: [] }))).toEqual("nothing");
+  expect(describe(Drawing.Group({ shapes: [triangle, square] }))).toEqual(
+    "a roof",
+  );
+  expect(describe(Drawing.Group({ shapes: [square, triangle] }))).toEqual(
+    "2 shapes",
+  );
+});
+
+test("ADTs matchPartial", () => {
+  const radius = (shape: Shape) =>
+    matchPartial(shape, { Circle: ({ radius }) => radius });
+  expect(radius(circle)).toEqual(Option.pure(1));
+  expect(isNone(radius(square))).toBeTruthy();
+
+  const empty = (shape: Shape) =>
+    matchPartial(shape, {
+      Rectangle: [on({ width: 0 }, () => true)],
+    });
+  expect(empty(Shape.Rectangle({ width: 0, height: 1 }))).toEqual(
+    Option.pure(true),
+  );
+  expect(isNone(empty(square))).toBeTruthy();
+
+  // Inherited properties of the handlers, such as toString, are ignored
+  type Named = Sum<{ toString: {}; other: {} }>;
+  const other = (value: Named) => matchPartial(value, { other: () => 1 });
+  expect(isNone(other({ _type: "toString" }))).toBeTruthy();
+});
+
+test("ADTs match Option, Either and Try", () => {
+  const option = (value: Option<number>) =>
+    match(value, {
+      Some: [on({ value: 0 }, () => "zero"), ({ value }) => `some ${value}`],
+      None: () => "none",
+    });
+  expect(option(Option.pure(0))).toEqual("zero");
+  expect(option(Option.pure(1))).toEqual("some 1");
+  expect(option(None.get())).toEqual("none");
+
+  const either = (value: Either<string, Shape>) =>
+    match(value, {
+      Right: [on({ value: { _type: "Circle" } }, () => "circle")],
+      _: () => "other",
+    });
+  expect(either(Either.asRight(circle))).toEqual("circle");
+  expect(either(Either.asRight(square))).toEqual("other");
+  expect(either(Either.asLeft("error"))).toEqual("other");
+
+  const attempt = match(new Failure<number, Error>(new Error("boom")), {
+    Success: ({ value }) => value,
+    Failure: ({ error }) => error.message,
+  });
+  expect(attempt).toEqual("boom");
+  expect(
+    matchPartial(new Success<number, Error>(1), {
+      Success: ({ value }) => value,
+    }),
+  ).toEqual(Option.pure(1));
+});
+
+test("ADTs match reports missing variants at compile time", () => {
+  const name = (shape: Shape) =>
+    // @ts-expect-error Rectangle and Triangle have no handler
+    match(shape, { Circle: () => "circle" });
+  expect(() => name(square)).toThrow("No case matched the variant Rectangle");
+
+  // @ts-expect-error None has no handler
+  expect(() => match(None.get<number>(), { Some: () => 1 })).toThrow(
+    "No case matched the variant None",
+  );
+});
+
+type Tree = Sum<{
+  Leaf: {};
+  Node: { left: Tree; value: number; right: Tree; label: Option<string> };
+}>;
+const Tree = defineADT<Tree>()("Leaf", "Node");
+
+const leaf = Tree.Leaf({});
+const tree = Tree.Node({
+  left: leaf,
+  value: 1,
+  right: Tree.Node({ left: leaf, value: 2, right: leaf, label: None.get() }),
+  label: Option.pure("root"),
+});
+
+test("ADTs defineADT constructors", () => {
+  expect(leaf).toEqual({ _type: "Leaf" });
+  expect(Tree.variants).toEqual(["Leaf", "Node"]);
+  // @ts-expect-error Unknown variant
+  expect(() => Tree.Lief({})).toThrow();
+  // @ts-expect-error Node is missing
+  expect(() => defineADT<Tree>()("Leaf")).not.toThrow();
+  expect(() => defineADT<Sum<{ is: {} }>>()("is")).toThrow(
+    "Variant name is is reserved",
+  );
+  expect(() => defineADT<Tree>()("Leaf", "Node", "Node")).toThrow(
+    "Variant Node is defined twice",
+  );
+});
+
+test("ADTs defineADT type guards", () => {
+  const values: unknown[] = [leaf, tree, { _type: "Other" }, null, 1];
+  expect(values.map(Tree.is.Leaf)).toEqual([true, false, false, false, false]);
+  expect(values.map(Tree.is.Node)).toEqual([false, true, false, false, false]);
+
+  const value: unknown = tree;
+  if (Tree.is.Node(value)) expect(value.value).toEqual(1);
+});
+
+test("ADTs defineADT fold", () => {
+  const sum: (tree: Tree) => number = Tree.fold({
+    Leaf: () => 0,
+    Node: ({ left, value, right }) => sum(left) + value + sum(right),
+  });
+  expect(sum(tree)).toEqual(3);
+  // @ts-expect-error Other is not a variant of Tree
+  expect(() => sum({ _type: "Other" })).toThrow("Unknown variant of Other");
+});
+
+test("ADTs defineADT equals and show", () => {
+  const copy = Tree.Node({
+    left: Tree.Leaf({}),
+    value: 1,
+    right: Tree.Node({ left: leaf, value: 2, right: leaf, label: None.get() }),
+    label: Option.pure("root"),
+  });
+  expect(Tree.equals(tree, copy)).toBeTruthy();
+  expect(Tree.equals(tree, leaf)).toBeFalsy();
+  expect(
+    Tree.equals(tree, Tree.Node({ ...copy, label: Option.pure("other") })),
+  ).toBeFalsy();
+
+  expect(Tree.show(leaf)).toEqual("Leaf");
+  expect(Tree.show(tree)).toEqual(
+    "Node(left: Leaf, value: 1, right: Node(left: Leaf, value: 2, right: Leaf, label: None), label: Some(root))",
+  );
+});
+
+test("ADTs defineADT encode and decode", () => {
+  type Shape = Sum<{
+    Circle: { radius: number; label: Option<string> };
+    Polygon: { points: { x: number; y: number }[] };
+  }>;
+  const Shape = defineADT<Shape>()({
+    Circle: { radius: number, label: Option.fromJSON(string) },
+    Polygon: { points: array(struct({ x: number, y: number })) },
+  });
+
+  const polygon = Shape.Polygon({
+    points: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+    ],
+  });
+  const json = Shape.encode(polygon);
+  expect(JSON.parse(json)).toEqual(polygon);
+  expect(Shape.decode(json)).toEqual(Either.asRight(polygon));
+
+  const labelled = Shape.Circle({ radius: 1, label: Option.pure("sun") });
+  const unlabelled = Shape.Circle({ radius: 1, label: None.get() });
+  for (const circle of [labelled, unlabelled]) {
+    const decoded = Shape.decode(Shape.encode(circle));
+    expect(decoded).toEqual(Either.asRight(circle));
+    expect(decoded.map((value) => Shape.equals(value, circle))).toEqual(
+      Either.asRight(true),
+    );
+  }
+
+  const errors = (json: string) =>
+    Shape.decode(json).mapLeft(formatDecodeError).swap().getOrElse("");
+  expect(errors('{"_type":"Square","side":1}')).toEqual(
+    '_type: expected one of "Circle", "Polygon", got "Square"',
+  );
+  expect(
+    errors('{"_type":"Circle","radius":"1","label":{"_tag":"None"}}'),
+  ).toEqual('radius: expected a number, got "1"');
+  expect(errors('{"_type":"Circle","radius":1}')).toEqual(
+    "label: expected an Option, got undefined",
+  );
+  expect(isLeft(Shape.decode("[1, 2]"))).toBeTruthy();
+  expect(isLeft(Shape.decode("{"))).toBeTruthy();
+  expect(
+    Shape.decoder({ _type: "Polygon", points: [{ x: 1, y: "2" }] }),
+  ).toEqual(
+    Either.asLeft({
+      issues: [
+        { path: ["points", 0, "y"], message: 'expected a number, got "2"' },
+      ],
+    }),
+  );
+
+  // @ts-expect-error Only definitions given field decoders can decode
+  expect(Tree.decode).toBeUndefined();
+});
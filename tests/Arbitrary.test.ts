@@ -0,0 +1,172 @@
+import Arbitrary, {
+  PropertyError,
+  Random,
+  array,
+  check,
+  constant,
+  elements,
+  float,
+  func,
+  integer,
+  listOf,
+  oneOf,
+  optionOf,
+  string,
+  tuple,
+} from "../Arbitrary";
+import List from "../List";
+import { None } from "../Option";
+import { expect, test } from "@jest/globals";
+
+function failure(run: () => void): PropertyError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PropertyError) return error;
+    throw error;
+  }
+  throw new Error("The property held");
+}
+
+test("Arbitrary Random is deterministic", () => {
+  const x = new Random(42);
+  const y = new Random(42);
+  const xs = Array.from({ length: 100 }, () => x.int(-5, 5));
+  expect(xs).toEqual(Array.from({ length: 100 }, () => y.int(-5, 5)));
+  expect(xs.every((value) => value >= -5 && value <= 5)).toBeTruthy();
+  expect(new Set(xs).size).toEqual(11);
+});
+
+test("Arbitrary sample is seedable", () => {
+  const arb = tuple(integer(), string, array(integer()));
+  expect(arb.sample(20, 7)).toEqual(arb.sample(20, 7));
+  expect(arb.sample(20, 7)).not.toEqual(arb.sample(20, 8));
+});
+
+test("Arbitrary respects bounds and sizes", () => {
+  expect(
+    integer(3, 5)
+      .sample(50)
+      .every((x) => x >= 3 && x <= 5),
+  ).toBeTruthy();
+  expect(
+    float(0, 1)
+      .sample(50)
+      .every((x) => x >= 0 && x < 1),
+  ).toBeTruthy();
+  const arrays = array(integer(), 2, 4).sample(50);
+  expect(arrays.every((xs) => xs.length >= 2 && xs.length <= 4)).toBeTruthy();
+  expect(
+    array(integer())
+      .sample(10)
+      .every((xs, size) => xs.length <= size),
+  ).toBeTruthy();
+  expect(constant("a").sample(3)).toEqual(["a", "a", "a"]);
+  expect(new Set(elements("a", "b").sample(50))).toEqual(new Set(["a", "b"]));
+  expect(
+    integer()
+      .filter((x) => x % 2 === 0)
+      .sample(50)
+      .every((x) => x % 2 === 0),
+  ).toBeTruthy();
+  expect(() =>
+    constant(1)
+      .filter(() => false)
+      .sample(1),
+  ).toThrow("No value satisfied the filter in 100 tries");
+});
+
+test("Arbitrary functions are deterministic", () => {
+  const [f, g] = func<string, number>(integer()).sample(2, 3);
+  expect(f("a")).toEqual(f("a"));
+  const values = ["a", "b", "c", "d", "e"];
+  expect(values.map(f)).not.toEqual(values.map(g));
+});
+
+test("Arbitrary check passes when the property holds", () => {
+  let runs = 0;
+  check(tuple(string, string), ([x, y]) => {
+    runs++;
+    expect((x + y).length).toEqual(x.length + y.length);
+  });
+  expect(runs).toEqual(100);
+});
+
+test("Arbitrary check shrinks integers", () => {
+  const error = failure(() => check(integer(), (x) => x < 42, { seed: 1 }));
+  expect(error.counterexample).toEqual(42);
+  expect(error.seed).toEqual(1);
+  expect(error.message).toMatch(/^Property failed after \d+ run\(s\)/);
+  expect(error.message).toContain("(seed: 1)\nCounterexample: 42");
+
+  const negative = failure(() => check(integer(), (x) => x > -10));
+  expect(negative.counterexample).toEqual(-10);
+});
+
+test("Arbitrary check shrinks arrays and strings", () => {
+  const sum = failure(() =>
+    check(array(integer(0, 100)), (xs) => xs.reduce((a, b) => a + b, 0) < 100),
+  );
+  expect((sum.counterexample as number[]).reduce((a, b) => a + b, 0)).toEqual(
+    100,
+  );
+
+  const unique = failure(() =>
+    check(array(integer()), (xs) => new Set(xs).size === xs.length),
+  );
+  const [x, y, ...rest] = unique.counterexample as number[];
+  expect(x).toEqual(y);
+  expect(rest).toEqual([]);
+
+  const text = failure(() => check(string, (s) => !s.includes("z")));
+  expect(text.counterexample).toEqual("z");
+});
+
+test("Arbitrary check shrinks through map and bind", () => {
+  const list = failure(() => check(listOf(integer()), (xs) => xs.length() < 3));
+  expect((list.counterexample as List<number>).toArray()).toEqual([0, 0, 0]);
+
+  const option = failure(() =>
+    check(optionOf(integer()), (x) => x.exists((value) => value < 5)),
+  );
+  expect(option.counterexample).toBeInstanceOf(None);
+
+  const dependent = integer(0, 100).bind((max) =>
+    integer(0, max).map((value) => [max, value]),
+  );
+  const pair = failure(() => check(dependent, ([, value]) => value < 10));
+  const [max, value] = pair.counterexample as number[];
+  expect(value).toEqual(10);
+  expect(max).toBeGreaterThanOrEqual(10);
+
+  const either = failure(() =>
+    check(oneOf(integer(0, 10), integer(100, 200)), (x) => x < 150),
+  );
+  expect(either.counterexample).toEqual(150);
+});
+
+test("Arbitrary check reports thrown errors", () => {
+  const error = failure(() =>
+    check(
+      integer(),
+      (x) => {
+        if (x > 5) throw new Error(`too large: ${x}`);
+      },
+      { label: "Small numbers" },
+    ),
+  );
+  expect(error.counterexample).toEqual(6);
+  expect(error.error).toEqual(new Error("too large: 6"));
+  expect(error.message).toMatch(/^Small numbers failed/);
+  expect(error.message).toMatch(/too large: 6$/);
+});
+
+test("Arbitrary check replays a failure from its seed", () => {
+  const property = (x: number) => x % 7 !== 3;
+  const first = failure(() => check(integer(), property));
+  const replay = failure(() =>
+    check(integer(), property, { seed: first.seed }),
+  );
+  expect(replay.counterexample).toEqual(first.counterexample);
+  expect(replay.runs).toEqual(first.runs);
+});
@@ -0,0 +1,196 @@
+import {
+  DecodeError,
+  TypeOf,
+  array,
+  boolean,
+  formatDecodeError,
+  literal,
+  number,
+  optional,
+  record,
+  string,
+  struct,
+  sum,
+  union,
+  unknown,
+} from "../Decoder";
+import { Sum, makeConstructors, match } from "../ADTs";
+import Either from "../Either";
+import Option, { None } from "../Option";
+import { expect, test } from "@jest/globals";
+
+const errors = (result: Either<DecodeError, unknown>) =>
+  result.mapLeft(formatDecodeError).swap().getOrElse("").split("\n");
+
+test("Decoder primitives", () => {
+  expect(string("a")).toEqual(Either.asRight("a"));
+  expect(number(1)).toEqual(Either.asRight(1));
+  expect(boolean(false)).toEqual(Either.asRight(false));
+  expect(unknown(undefined)).toEqual(Either.asRight(undefined));
+
+  expect(errors(string(1))).toEqual(["<root>: expected a string, got 1"]);
+  expect(errors(number("1"))).toEqual(['<root>: expected a number, got "1"']);
+  expect(errors(boolean(null))).toEqual([
+    "<root>: expected a boolean, got null",
+  ]);
+});
+
+test("Decoder literal and union", () => {
+  const role = literal("admin", "user");
+  const id = union(number, string);
+
+  expect(role("admin")).toEqual(Either.asRight("admin"));
+  expect(errors(role("root"))).toEqual([
+    '<root>: expected "admin" or "user", got "root"',
+  ]);
+  expect(id(1)).toEqual(Either.asRight(1));
+  expect(id("a")).toEqual(Either.asRight("a"));
+  expect(errors(id(true))).toEqual([
+    "<root>: expected a number, got true",
+    "<root>: expected a string, got true",
+  ]);
+
+  const typed: Either<DecodeError, "admin" | "user"> = role("user");
+  const typedId: Either<DecodeError, number | string> = id(1);
+  expect(typed).toEqual(Either.asRight("user"));
+  expect(typedId).toEqual(Either.asRight(1));
+});
+
+test("Decoder array and record accumulate errors", () => {
+  expect(array(number)([1, 2])).toEqual(Either.asRight([1, 2]));
+  expect(errors(array(number)([1, "2", null]))).toEqual([
+    '1: expected a number, got "2"',
+    "2: expected a number, got null",
+  ]);
+  expect(errors(array(number)({}))).toEqual([
+    "<root>: expected an array, got an object",
+  ]);
+
+  expect(record(number)({ a: 1, b: 2 })).toEqual(
+    Either.asRight({ a: 1, b: 2 }),
+  );
+  expect(errors(record(number)({ a: "1", b: 2, c: [] }))).toEqual([
+    'a: expected a number, got "1"',
+    "c: expected a number, got an array",
+  ]);
+});
+
+test("Decoder struct and optional", () => {
+  const user = struct({
+    name: string,
+    age: number,
+    email: optional(string),
+    roles: array(literal("admin", "user")),
+  });
+  type User = TypeOf<typeof user>;
+
+  const decoded: Either<DecodeError, User> = user({
+    name: "Ada",
+    age: 36,
+    roles: ["admin"],
+    extra: true,
+  });
+  expect(decoded).toEqual(
+    Either.asRight({
+      name: "Ada",
+      age: 36,
+      email: None.get(),
+      roles: ["admin"],
+    }),
+  );
+  expect(
+    user({ name: "Ada", age: 36, email: "ada@example.com", roles: [] }).map(
+      (value) => value.email,
+    ),
+  ).toEqual(Either.asRight(Option.pure("ada@example.com")));
+
+  expect(errors(user({ name: 1, email: 2, roles: ["admin", "root"] }))).toEqual(
+    [
+      "name: expected a string, got 1",
+      "age: expected a number, got undefined",
+      "email: expected a string, got 2",
+      'roles.1: expected "admin" or "user", got "root"',
+    ],
+  );
+});
+
+test("Decoder nested paths", () => {
+  const order = struct({
+    items: array(struct({ sku: string, quantity: number })),
+  });
+
+  const result = order({ items: [{ sku: "a", quantity: 1 }, { sku: 2 }] });
+  expect(
+    result
+      .swap()
+      .map((error) => error.issues)
+      .getOrElse([]),
+  ).toEqual([
+    { path: ["items", 1, "sku"], message: "expected a string, got 2" },
+    {
+      path: ["items", 1, "quantity"],
+      message: "expected a number, got undefined",
+    },
+  ]);
+});
+
+test("Decoder sum works with the ADT helpers", () => {
+  type Shape = Sum<{
+    Circle: { radius: number };
+    Rectangle: { width: number; height: number };
+  }>;
+  const Shape = makeConstructors<Shape>();
+
+  const shape = sum({
+    Circle: { radius: number },
+    Rectangle: { width: number, height: number },
+  });
+  const area = (value: Shape) =>
+    match(value, {
+      Circle: ({ radius }) => 3 * radius ** 2,
+      Rectangle: ({ width, height }) => width * height,
+    });
+
+  const decoded = shape({ _type: "Rectangle", width: 2, height: 3 });
+  expect(decoded).toEqual(
+    Either.asRight(Shape.Rectangle({ width: 2, height: 3 })),
+  );
+  expect(decoded.map(area)).toEqual(Either.asRight(6));
+  expect(shape({ _type: "Circle", radius: 1 }).map(area)).toEqual(
+    Either.asRight(3),
+  );
+
+  expect(errors(shape({ _type: "Triangle" }))).toEqual([
+    '_type: expected one of "Circle", "Rectangle", got "Triangle"',
+  ]);
+  expect(errors(shape({ _type: "Circle", radius: "1" }))).toEqual([
+    'radius: expected a number, got "1"',
+  ]);
+});
+
+test("Decoder keeps __proto__ keys as fields", () => {
+  const input = JSON.parse('{"__proto__":{"isAdmin":true},"a":1}');
+
+  const decoded = record(unknown)(input).getOrElse({});
+  expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+  expect(decoded.isAdmin).toBeUndefined();
+  expect(Object.keys(decoded)).toEqual(["__proto__", "a"]);
+  expect(decoded["__proto__"]).toEqual({ isAdmin: true });
+
+  const fields = struct({ ["__proto__"]: unknown, a: number })(input);
+  expect(fields.map((value) => Object.getPrototypeOf(value))).toEqual(
+    Either.asRight(Object.prototype),
+  );
+  expect(fields.map((value) => Object.keys(value))).toEqual(
+    Either.asRight(["__proto__", "a"]),
+  );
+
+  const tagged = sum({ Admin: { ["__proto__"]: unknown } })({
+    ...input,
+    _type: "Admin",
+  });
+  expect(tagged.map((value) => Object.getPrototypeOf(value))).toEqual(
+    Either.asRight(Object.prototype),
+  );
+  expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+});
@@ -0,0 +1,144 @@
+import gen from "../Do";
+import Option, { isNone, None } from "../Option";
+import Either, { isLeft } from "../Either";
+import Try, { Failure, Success } from "../Try";
+import IO from "../IO";
+import Task from "../Task";
+import Writer from "../Writer";
+import List from "../List";
+import LazyList from "../LazyList";
+import { StringConcatMonoid } from "../Monoid";
+import { expect, test } from "@jest/globals";
+
+test("Generic gen", () => {
+  const result: Option<number> = gen(function* () {
+    const a = yield* Option.pure(1);
+    const b = yield* Option.pure(2);
+    return a + b;
+  }, Option.pure);
+  expect(result.getOrElse(-1)).toEqual(3);
+});
+
+test("Option gen", () => {
+  const result = Option.gen(function* () {
+    const a = yield* Option.pure(1);
+    const b = yield* Option.pure("two");
+    return `${a} ${b}`;
+  });
+  expect(result.getOrElse("")).toEqual("1 two");
+
+  let reached = false;
+  const none = Option.gen(function* () {
+    const a = yield* None.get<number>();
+    reached = true;
+    return a;
+  });
+  expect(isNone(none)).toBeTruthy();
+  expect(reached).toBeFalsy();
+});
+
+test("Either gen", () => {
+  const parse = (text: string): Either<string, number> =>
+    isNaN(Number(text))
+      ? Either.asLeft(`${text} is not a number`)
+      : Either.asRight(Number(text));
+
+  const sum = Either.gen(function* () {
+    const a = yield* parse("1");
+    const b = yield* parse("2");
+    return a + b;
+  });
+  expect(sum.getOrElse(-1)).toEqual(3);
+
+  const failed = Either.gen(function* () {
+    const a = yield* parse("x");
+    const b = yield* parse("y");
+    return a + b;
+  });
+  expect(isLeft(failed)).toBeTruthy();
+  failed.match({
+    ifLeft: (error) => expect(error).toEqual("x is not a number"),
+    ifRight: () => {
+      throw new Error("Failed Branch");
+    },
+  });
+});
+
+test("Try gen", () => {
+  const success = Try.gen(function* () {
+    const a = yield* new Success<number>(20);
+    return a + 1;
+  });
+  expect(success.getOrElse(-1)).toEqual(21);
+
+  const failure = Try.gen(function* () {
+    const a = yield* new Failure<number>(new Error("boom"));
+    return a + 1;
+  });
+  expect(failure).toBeInstanceOf(Failure);
+
+  const thrown = Try.gen(function* (): Generator<Try<any>, number, any> {
+    throw new Error("thrown");
+  });
+  expect(thrown).toBeInstanceOf(Failure);
+});
+
+test("IO gen", () => {
+  let effects = 0;
+  const effect = IO.from(() => ++effects);
+  const program = IO.gen(function* () {
+    const a = yield* effect;
+    const b = yield* effect;
+    return a + b;
+  });
+
+  expect(effects).toEqual(0);
+  expect(program.runUnsafe()).toEqual(3);
+  // Each run starts the generator again
+  expect(program.runUnsafe()).toEqual(7);
+});
+
+test("Task gen", async () => {
+  const program = Task.gen(function* () {
+    const a = yield* Task.of(1);
+    const b = yield* Task.from(() => Promise.resolve(2));
+    return a + b;
+  });
+
+  expect(await program.run()).toEqual(3);
+  expect(await program.run()).toEqual(3);
+});
+
+test("Writer gen", () => {
+  const writer = Writer.gen(StringConcatMonoid, function* () {
+    const a = yield* Writer.of(2, StringConcatMonoid).tell("two ");
+    const b = yield* Writer.of(3, StringConcatMonoid).tell("three");
+    return a * b;
+  });
+
+  expect(writer.run()).toEqual([6, "two three"]);
+});
+
+test("List gen", () => {
+  const pairs = List.gen(function* () {
+    const x = yield* List.of(1, 2).each();
+    const y = yield* List.of("a", "b").each();
+    return `${x}${y}`;
+  });
+  expect(pairs.toArray()).toEqual(["1a", "1b", "2a", "2b"]);
+
+  const filtered = List.gen(function* () {
+    const x = yield* List.of(1, 2, 3, 4).each();
+    yield* (x % 2 == 0 ? List.of(undefined) : List.of<undefined>()).each();
+    return x;
+  });
+  expect(filtered.toArray()).toEqual([2, 4]);
+});
+
+test("LazyList gen", () => {
+  const squares = LazyList.gen(function* () {
+    const x = yield* LazyList.range(1).each();
+    return x * x;
+  });
+  expect(squares.take(3).toArray()).toEqual([1, 4, 9]);
+});
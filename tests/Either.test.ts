@@ -1,6 +1,8 @@
 import Either, { isLeft, isRight } from "../Either";
 import { expect, test } from "@jest/globals";
-import Option, { None } from "../Option";
+import Option, { None, isNone } from "../Option";
+import { Failure, Success } from "../Try";
+import List from "../List";
 
 const ThrowFailedBranchError = <T>(value: T) => {
   throw new Error("Failed Branch");
@@ -55,3 +57,210 @@ test("Either ensure", () => {
     isRight(Either.asRight(rn).ensure(alternative)((value) => value == rn)),
   );
 });
+
+test("Either traverse and sequence", () => {
+  const parse = (text: string): Either<string, number> =>
+    isNaN(Number(text)) ? Either.asLeft(text) : Either.asRight(Number(text));
+
+  expect(Either.traverse(["1", "2"], parse).getOrElse([])).toEqual([1, 2]);
+  Either.traverse(["1", "x", "y"], parse).match({
+    ifLeft: (value) => expect(value).toEqual("x"),
+    ifRight: ThrowFailedBranchError,
+  });
+  expect(
+    Either.sequence([Either.asRight(1), Either.asRight(2)]).getOrElse([]),
+  ).toEqual([1, 2]);
+  expect(
+    isLeft(Either.sequence([Either.asRight(1), Either.asLeft("error")])),
+  ).toBeTruthy();
+
+  const values = Array.from({ length: 100_000 }, (_, i) => i);
+  expect(
+    Either.traverse(values, (x) => Either.asRight(x)).getOrElse([]).length,
+  ).toEqual(values.length);
+});
+
+test("Either traverseRecord and sequenceRecord", () => {
+  expect(
+    Either.sequenceRecord({
+      a: Either.asRight<string, number>(1),
+      b: Either.asRight<string, string>("b"),
+    }).getOrElse({ a: 0, b: "" }),
+  ).toEqual({ a: 1, b: "b" });
+  expect(
+    isLeft(
+      Either.sequenceRecord({
+        a: Either.asRight<string, number>(1),
+        b: Either.asLeft<string, string>("error"),
+      }),
+    ),
+  ).toBeTruthy();
+  expect(
+    Either.traverseRecord({ a: 1, b: 2 }, (value) =>
+      Either.asRight(value * 10),
+    ).getOrElse({ a: 0, b: 0 }),
+  ).toEqual({ a: 10, b: 20 });
+});
+
+test("Either traverseList", () => {
+  expect(
+    Either.traverseList(List.of(1, 2), (x) => Either.asRight(x + 1))
+      .getOrElse(List.of())
+      .toArray(),
+  ).toEqual([2, 3]);
+  expect(
+    isLeft(Either.traverseList(List.of(1, 2), (x) => Either.asLeft(x))),
+  ).toBeTruthy();
+});
+
+test("Either mapLeft, bimap, swap and fold", () => {
+  const left = Either.asLeft<string, number>("boom");
+  const right = Either.asRight<string, number>(2);
+
+  expect(left.mapLeft((error) => error.length)).toEqual(Either.asLeft(4));
+  expect(right.mapLeft((error) => error.length)).toEqual(Either.asRight(2));
+  expect(
+    left.bimap(
+      (e) => e + "!",
+      (x) => x * 2,
+    ),
+  ).toEqual(Either.asLeft("boom!"));
+  expect(
+    right.bimap(
+      (e) => e + "!",
+      (x) => x * 2,
+    ),
+  ).toEqual(Either.asRight(4));
+  expect(left.swap()).toEqual(Either.asRight("boom"));
+  expect(right.swap()).toEqual(Either.asLeft(2));
+  expect(
+    left.fold(
+      (e) => e.length,
+      (x) => x,
+    ),
+  ).toEqual(4);
+  expect(
+    right.fold(
+      (e) => e.length,
+      (x) => x,
+    ),
+  ).toEqual(2);
+});
+
+test("Either tap and tapLeft", () => {
+  const seen: string[] = [];
+  const right = Either.asRight<string, number>(1);
+  const left = Either.asLeft<string, number>("error");
+
+  expect(right.tap((x) => seen.push(`right ${x}`))).toBe(right);
+  expect(right.tapLeft((e) => seen.push(`left ${e}`))).toBe(right);
+  expect(left.tap((x) => seen.push(`right ${x}`))).toBe(left);
+  expect(left.tapLeft((e) => seen.push(`left ${e}`))).toBe(left);
+  expect(seen).toEqual(["right 1", "left error"]);
+});
+
+test("Either filterOrElse and fromPredicate", () => {
+  const positive = (x: number) => x > 0;
+  const negative = (x: number) => `${x} is not positive`;
+
+  expect(
+    Either.asRight<string, number>(1).filterOrElse(positive, negative),
+  ).toEqual(Either.asRight(1));
+  expect(
+    Either.asRight<string, number>(-1).filterOrElse(positive, negative),
+  ).toEqual(Either.asLeft("-1 is not positive"));
+  expect(
+    Either.asLeft<string, number>("first").filterOrElse(positive, negative),
+  ).toEqual(Either.asLeft("first"));
+
+  const isString = (x: unknown): x is string => typeof x === "string";
+  const narrowed: Either<string, string> = Either.fromPredicate(
+    "a" as unknown,
+    isString,
+    () => "not a string",
+  );
+  expect(narrowed).toEqual(Either.asRight("a"));
+  expect(Either.fromPredicate(0, positive, negative)).toEqual(
+    Either.asLeft("0 is not positive"),
+  );
+});
+
+test("Either conversions", () => {
+  expect(Either.asRight(1).toOption()).toEqual(Option.pure(1));
+  expect(isNone(Either.asLeft("error").toOption())).toBe(true);
+
+  expect(Either.asRight(1).toTry()).toEqual(new Success(1));
+  expect(Either.asLeft("error").toTry()).toEqual(new Failure("error"));
+  expect(Either.fromTry(new Success(1))).toEqual(Either.asRight(1));
+  expect(Either.fromTry(new Failure("error"))).toEqual(Either.asLeft("error"));
+
+  expect(Either.fromNullable(1, "missing")).toEqual(Either.asRight(1));
+  expect(Either.fromNullable(0, "missing")).toEqual(Either.asRight(0));
+  expect(Either.fromNullable(null, "missing")).toEqual(
+    Either.asLeft("missing"),
+  );
+  expect(Either.fromNullable(undefined, "missing")).toEqual(
+    Either.asLeft("missing"),
+  );
+});
+
+test("Either tryCatch", () => {
+  const parse = (text: string) =>
+    Either.tryCatch(
+      () => JSON.parse(text) as number[],
+      (error) => (error as Error).name,
+    );
+  expect(parse("[1, 2]")).toEqual(Either.asRight([1, 2]));
+  expect(parse("[1, ")).toEqual(Either.asLeft("SyntaxError"));
+});
+
+test("Either bind widens the Left type", () => {
+  type NotFound = { kind: "not found" };
+  type TooYoung = { kind: "too young"; age: number };
+
+  const find = (age: number): Either<NotFound, number> =>
+    age >= 0 ? Either.asRight(age) : Either.asLeft({ kind: "not found" });
+  const check = (age: number): Either<TooYoung, number> =>
+    age >= 18 ? Either.asRight(age) : Either.asLeft({ kind: "too young", age });
+
+  const adult: Either<NotFound | TooYoung, number> = find(20).bind(check);
+  const minor: Either<NotFound | TooYoung, string> = find(12)
+    .bind(check)
+    .map(String);
+
+  expect(adult).toEqual(Either.asRight(20));
+  expect(minor).toEqual(Either.asLeft({ kind: "too young", age: 12 }));
+  expect(find(-1).bind(check)).toEqual(Either.asLeft({ kind: "not found" }));
+  expect(find(1).bind((age) => Either.asRight(age + 1))).toEqual(
+    Either.asRight(2),
+  );
+});
+
+test("Either Promise helpers", async () => {
+  const toMessage = (error: unknown) => (error as Error).message;
+
+  await expect(
+    Either.fromPromise(Promise.resolve(1), toMessage),
+  ).resolves.toEqual(Either.asRight(1));
+  await expect(
+    Either.fromPromise(Promise.reject(new Error("rejected")), toMessage),
+  ).resolves.toEqual(Either.asLeft("rejected"));
+  await expect(
+    Either.tryCatchAsync((): Promise<number> => {
+      throw new Error("thrown");
+    }, toMessage),
+  ).resolves.toEqual(Either.asLeft("thrown"));
+
+  const right = Either.asRight<string, number>(1);
+  await expect(right.mapAsync(async (x) => x + 1)).resolves.toEqual(
+    Either.asRight(2),
+  );
+  await expect(
+    right.bindAsync(async (x) => Either.asLeft<number, string>(x)),
+  ).resolves.toEqual(Either.asLeft(1));
+  await expect(
+    Either.asLeft<string, number>("error").bindAsync(async (x) =>
+      Either.asRight(x + 1),
+    ),
+  ).resolves.toEqual(Either.asLeft("error"));
+});
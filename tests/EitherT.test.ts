@@ -0,0 +1,52 @@
+import EitherT from "../EitherT";
+import Either from "../Either";
+import IO from "../IO";
+import { IOKind, IOMonad } from "../Instances";
+import { expect, test } from "@jest/globals";
+
+const parse = (input: string) =>
+  EitherT.from<IOKind, string, number>(
+    IOMonad,
+    IO.from(() =>
+      isNaN(Number(input))
+        ? Either.asLeft<string, number>(`not a number: ${input}`)
+        : Either.asRight<string, number>(Number(input)),
+    ),
+  );
+
+test("EitherT bind and map over IO", () => {
+  const sum = parse("20")
+    .bind((a) => parse("22").map((b) => a + b))
+    .run();
+  expect(sum.runUnsafe()).toEqual(Either.asRight(42));
+
+  let reached = false;
+  const failed = parse("x").bind((a) => {
+    reached = true;
+    return EitherT.right<IOKind, string, number>(IOMonad, a);
+  });
+  expect(failed.run().runUnsafe()).toEqual(Either.asLeft("not a number: x"));
+  expect(reached).toBe(false);
+});
+
+test("EitherT mapLeft, orElse and getOrElse", () => {
+  const failed = EitherT.left<IOKind, string, number>(IOMonad, "boom");
+  expect(
+    failed
+      .mapLeft((error) => error.length)
+      .run()
+      .runUnsafe(),
+  ).toEqual(Either.asLeft(4));
+  expect(
+    failed
+      .orElse((error) => EitherT.right(IOMonad, error.length))
+      .run()
+      .runUnsafe(),
+  ).toEqual(Either.asRight(4));
+  expect(failed.getOrElse(0).runUnsafe()).toEqual(0);
+  expect(
+    EitherT.lift<IOKind, string, number>(IOMonad, IO.of(7))
+      .getOrElse(0)
+      .runUnsafe(),
+  ).toEqual(7);
+});
@@ -0,0 +1,137 @@
+import { ArrayEq, contramap, DefaultEq, StructEq, TupleEq } from "../Eq";
+import {
+  ArrayOrd,
+  max,
+  min,
+  NumberOrd,
+  reverse,
+  StringOrd,
+  thenBy,
+  contramap as contramapOrd,
+} from "../Ord";
+import { hash } from "../Hash";
+import Option, { None } from "../Option";
+import Either from "../Either";
+import { Failure, Success } from "../Try";
+import List from "../List";
+import Writer from "../Writer";
+import { StringConcatMonoid } from "../Monoid";
+import { expect, test } from "@jest/globals";
+
+test("Eq instances", () => {
+  expect(ArrayEq(DefaultEq).equals([1, 2], [1, 2])).toBeTruthy();
+  expect(ArrayEq(DefaultEq).equals([1, 2], [1])).toBeFalsy();
+  expect(
+    StructEq({ id: DefaultEq, tags: ArrayEq(DefaultEq) }).equals(
+      { id: 1, tags: ["a"] },
+      { id: 1, tags: ["a"] },
+    ),
+  ).toBeTruthy();
+  expect(TupleEq(DefaultEq, DefaultEq).equals([1, "a"], [1, "b"])).toBeFalsy();
+  expect(
+    contramap(DefaultEq, (s: string) => s.toLowerCase()).equals("A", "a"),
+  ).toBeTruthy();
+});
+
+test("Ord instances", () => {
+  expect(NumberOrd.compare(1, 2)).toEqual(-1);
+  expect(reverse(NumberOrd).compare(1, 2)).toEqual(1);
+  expect(StringOrd.equals("a", "a")).toBeTruthy();
+  expect(ArrayOrd(NumberOrd).compare([1, 2], [1, 2, 0])).toEqual(-1);
+  expect(min(NumberOrd)(3, 2)).toEqual(2);
+  expect(max(NumberOrd)(3, 2)).toEqual(3);
+
+  const byLength = contramapOrd(NumberOrd, (s: string) => s.length);
+  expect(["bb", "a", "ab"].sort(thenBy(byLength, StringOrd).compare)).toEqual([
+    "a",
+    "ab",
+    "bb",
+  ]);
+});
+
+test("Option equality", () => {
+  expect(Option.pure(1).equals(Option.pure(1))).toBeTruthy();
+  expect(Option.pure(1).equals(Option.pure(2))).toBeFalsy();
+  expect(Option.pure(1).equals(None.get())).toBeFalsy();
+  expect(None.get<number>().equals(None.get())).toBeTruthy();
+  // Nested data types are compared structurally by default
+  expect(
+    Option.pure(Option.pure(1)).equals(Option.pure(Option.pure(1))),
+  ).toBeTruthy();
+  expect(
+    Option.getEq(ArrayEq(DefaultEq)).equals(
+      Option.pure([1, 2]),
+      Option.pure([1, 2]),
+    ),
+  ).toBeTruthy();
+  expect(Option.pure(1).hashCode()).toEqual(Option.pure(1).hashCode());
+  expect(Option.pure(1).hashCode()).not.toEqual(None.get().hashCode());
+
+  const ord = Option.getOrd(NumberOrd);
+  expect(ord.compare(None.get(), Option.pure(1))).toEqual(-1);
+  expect(ord.compare(Option.pure(2), Option.pure(1))).toEqual(1);
+});
+
+test("Either equality", () => {
+  expect(Either.asRight(1).equals(Either.asRight(1))).toBeTruthy();
+  expect(Either.asLeft(1).equals(Either.asRight(1))).toBeFalsy();
+  expect(Either.asLeft("a").equals(Either.asLeft("a"))).toBeTruthy();
+  expect(Either.asLeft(1).hashCode()).not.toEqual(Either.asRight(1).hashCode());
+
+  const ord = Either.getOrd(StringOrd, NumberOrd);
+  expect(ord.compare(Either.asLeft("z"), Either.asRight(0))).toEqual(-1);
+  expect(
+    Either.getEq(DefaultEq, ArrayEq(DefaultEq)).equals(
+      Either.asRight([1]),
+      Either.asRight([1]),
+    ),
+  ).toBeTruthy();
+});
+
+test("Try equality", () => {
+  const error = new Error("boom");
+  expect(new Success(1).equals(new Success(1))).toBeTruthy();
+  expect(new Failure(error).equals(new Failure(error))).toBeTruthy();
+  expect(new Success<number>(1).equals(new Failure(error))).toBeFalsy();
+  expect(new Success(1).hashCode()).toEqual(new Success(1).hashCode());
+});
+
+test("List equality and ordering", () => {
+  expect(List.of(1, 2).hashCode()).toEqual(List.of(1, 2).hashCode());
+  expect(List.of(1, 2).hashCode()).not.toEqual(List.of(2, 1).hashCode());
+  expect(
+    List.getEq(ArrayEq(DefaultEq)).equals(List.of([1]), List.of([1])),
+  ).toBeTruthy();
+
+  const ord = List.getOrd(NumberOrd);
+  expect(ord.compare(List.of(1, 2), List.of(1, 3))).toEqual(-1);
+  expect(ord.compare(List.of(1, 2), List.of(1))).toEqual(1);
+  expect(ord.compare(List.of(1), List.of(1))).toEqual(0);
+
+  const options = List.of(Option.pure(1), None.get<number>(), Option.pure(1));
+  expect(options.distinct(DefaultEq).length()).toEqual(2);
+  expect(
+    options
+      .sort(Option.getOrd(NumberOrd))
+      .equals(List.of(None.get<number>(), Option.pure(1), Option.pure(1))),
+  ).toBeTruthy();
+  expect(options.indexOf(Option.pure(1), DefaultEq).getOrElse(-1)).toEqual(0);
+});
+
+test("Writer equality", () => {
+  const writer = Writer.of(1, StringConcatMonoid).tell("log");
+  expect(
+    writer.equals(Writer.of(1, StringConcatMonoid).tell("log")),
+  ).toBeTruthy();
+  expect(writer.equals(Writer.of(1, StringConcatMonoid))).toBeFalsy();
+  expect(writer.hashCode()).toEqual(
+    Writer.of(1, StringConcatMonoid).tell("log").hashCode(),
+  );
+});
+
+test("hash", () => {
+  expect(hash("abc")).toEqual(hash("abc"));
+  expect(hash([1, 2])).toEqual(hash([1, 2]));
+  expect(hash(1.5)).toEqual(hash(1.5));
+  expect(hash(null)).not.toEqual(hash(undefined));
+});
@@ -1,4 +1,7 @@
 import IO from "../IO";
+import { isLeft, isRight } from "../Either";
+import { Failure, Success } from "../Try";
+import List from "../List";
 import { expect, test } from "@jest/globals";
 
 test("Testing IO laziness", () => {
@@ -25,3 +28,192 @@ test("Testing IO as a wrapper", () => {
   });
   expect(program.runUnsafe()).toEqual(later);
 });
+
+test("Testing IO stack safety of right-nested binds", () => {
+  const steps = 1_000_000;
+  const countdown = (n: number): IO<number> =>
+    n === 0 ? IO.of(0) : IO.from(() => n - 1).bind(countdown);
+
+  expect(countdown(steps).runUnsafe()).toEqual(0);
+});
+
+test("Testing IO stack safety of left-nested binds", () => {
+  const steps = 1_000_000;
+  let program = IO.of(0);
+  for (let i = 0; i < steps; i++) program = program.bind((x) => IO.of(x + 1));
+
+  expect(program.runUnsafe()).toEqual(steps);
+});
+
+test("Testing IO stack safety of map chains", () => {
+  const steps = 1_000_000;
+  let program = IO.from(() => 0);
+  for (let i = 0; i < steps; i++) program = program.map((x) => x + 1);
+
+  expect(program.runUnsafe()).toEqual(steps);
+});
+
+test("Testing IO attempt", () => {
+  const error = new Error("boom");
+  const failing = IO.from<number>(() => {
+    throw error;
+  });
+
+  const failed = failing.attempt().runUnsafe();
+  expect(isLeft(failed)).toBeTruthy();
+  failed.match({
+    ifLeft: (value) => expect(value).toBe(error),
+    ifRight: () => {
+      throw new Error("Failed Branch");
+    },
+  });
+
+  expect(isRight(IO.of(1).attempt().runUnsafe())).toBeTruthy();
+});
+
+test("Testing IO attemptTry", () => {
+  const failing = IO.raiseError<number>(new Error("boom"));
+
+  expect(failing.attemptTry().runUnsafe()).toBeInstanceOf(Failure);
+  expect(IO.of(1).attemptTry().runUnsafe()).toBeInstanceOf(Success);
+});
+
+test("Testing IO handleErrorWith", () => {
+  const program = IO.of(1)
+    .bind((_value) => IO.raiseError<number>("boom"))
+    .map((value) => value + 1)
+    .handleErrorWith((error) => IO.of(error === "boom" ? -1 : 0));
+
+  expect(program.runUnsafe()).toEqual(-1);
+  expect(
+    IO.of(1)
+      .handleError(() => -1)
+      .runUnsafe(),
+  ).toEqual(1);
+});
+
+test("Testing IO errors thrown by handlers", () => {
+  const program = IO.raiseError<number>("first").handleErrorWith(() => {
+    throw "second";
+  });
+
+  expect(() => program.runUnsafe()).toThrow("second");
+  expect(
+    program.handleError((error) => (error === "second" ? 2 : 0)).runUnsafe(),
+  ).toEqual(2);
+});
+
+test("Testing IO ensuring", () => {
+  let finalized = 0;
+  const finalizer = IO.from(() => {
+    finalized += 1;
+  });
+
+  expect(IO.of(1).ensuring(finalizer).runUnsafe()).toEqual(1);
+  expect(finalized).toEqual(1);
+
+  expect(() =>
+    IO.raiseError<number>(new Error("boom")).ensuring(finalizer).runUnsafe(),
+  ).toThrow("boom");
+  expect(finalized).toEqual(2);
+});
+
+test("Testing IO bracket", () => {
+  const events: string[] = [];
+  const acquire = IO.from(() => {
+    events.push("acquire");
+    return "handle";
+  });
+  const release = (resource: string) =>
+    IO.from(() => {
+      events.push(`release ${resource}`);
+    });
+
+  const ok = IO.bracket(acquire, (resource) => IO.of(resource.length), release);
+  expect(ok.runUnsafe()).toEqual(6);
+  expect(events).toEqual(["acquire", "release handle"]);
+
+  const failing = IO.bracket(
+    acquire,
+    (_resource): IO<number> => {
+      throw new Error("use failed");
+    },
+    release,
+  );
+  expect(() => failing.runUnsafe()).toThrow("use failed");
+  expect(events).toEqual([
+    "acquire",
+    "release handle",
+    "acquire",
+    "release handle",
+  ]);
+});
+
+test("Testing IO stack safety of nested handlers", () => {
+  const steps = 1_000_000;
+  const countdown = (n: number): IO<number> =>
+    n === 0
+      ? IO.raiseError("done")
+      : IO.of(n - 1)
+          .bind(countdown)
+          .handleErrorWith(IO.raiseError);
+
+  expect(
+    countdown(steps)
+      .handleError(() => 0)
+      .runUnsafe(),
+  ).toEqual(0);
+});
+
+test("Testing IO traverse and sequence", () => {
+  const events: number[] = [];
+  const log = (x: number) =>
+    IO.from(() => {
+      events.push(x);
+      return x * 2;
+    });
+
+  const program = IO.traverse([1, 2, 3], log);
+  expect(events).toEqual([]);
+  expect(program.runUnsafe()).toEqual([2, 4, 6]);
+  expect(program.runUnsafe()).toEqual([2, 4, 6]);
+  expect(events).toEqual([1, 2, 3, 1, 2, 3]);
+
+  expect(IO.sequence([IO.of(1), IO.of(2)]).runUnsafe()).toEqual([1, 2]);
+});
+
+test("Testing IO traverse short-circuits on errors", () => {
+  const events: number[] = [];
+  const program = IO.traverse([1, 2, 3], (x) =>
+    x == 2
+      ? IO.raiseError<number>(new Error("boom"))
+      : IO.from(() => {
+          events.push(x);
+          return x;
+        }),
+  );
+
+  expect(() => program.runUnsafe()).toThrow("boom");
+  expect(events).toEqual([1]);
+});
+
+test("Testing IO traverseRecord, sequenceRecord and traverseList", () => {
+  expect(IO.sequenceRecord({ a: IO.of(1), b: IO.of("b") }).runUnsafe()).toEqual(
+    { a: 1, b: "b" },
+  );
+  expect(
+    IO.traverseRecord({ a: 1, b: 2 }, (value, key) =>
+      IO.of(`${key}${value}`),
+    ).runUnsafe(),
+  ).toEqual({ a: "a1", b: "b2" });
+  expect(
+    IO.traverseList(List.of(1, 2), (x) => IO.of(x * 3))
+      .runUnsafe()
+      .toArray(),
+  ).toEqual([3, 6]);
+});
+
+test("Testing IO traverse on large inputs", () => {
+  const values = Array.from({ length: 100_000 }, (_, i) => i);
+  expect(IO.traverse(values, IO.of).runUnsafe().length).toEqual(values.length);
+});
@@ -0,0 +1,150 @@
+import Option, { None } from "../Option";
+import Either from "../Either";
+import Try, { Failure, Success } from "../Try";
+import List from "../List";
+import Validation from "../Validation";
+import {
+  Decoder,
+  array,
+  boolean,
+  formatDecodeError,
+  number,
+  string,
+} from "../Decoder";
+import { expect, test } from "@jest/globals";
+
+const roundTrip = <A>(value: A, decoder: Decoder<A>) =>
+  decoder(JSON.parse(JSON.stringify(value)));
+
+test("JSON format of Option", () => {
+  expect(JSON.stringify(Option.pure(1))).toEqual('{"_tag":"Some","value":1}');
+  expect(JSON.stringify(None.get())).toEqual('{"_tag":"None"}');
+
+  const decoder = Option.fromJSON(number);
+  expect(roundTrip(Option.pure(1), decoder)).toEqual(
+    Either.asRight(Option.pure(1)),
+  );
+  expect(roundTrip(None.get<number>(), decoder)).toEqual(
+    Either.asRight(None.get()),
+  );
+});
+
+test("JSON format of Either", () => {
+  expect(JSON.stringify(Either.asLeft("error"))).toEqual(
+    '{"_tag":"Left","value":"error"}',
+  );
+  expect(JSON.stringify(Either.asRight(1))).toEqual(
+    '{"_tag":"Right","value":1}',
+  );
+
+  const decoder = Either.fromJSON(string, number);
+  expect(roundTrip(Either.asLeft<string, number>("error"), decoder)).toEqual(
+    Either.asRight(Either.asLeft("error")),
+  );
+  expect(roundTrip(Either.asRight<string, number>(1), decoder)).toEqual(
+    Either.asRight(Either.asRight(1)),
+  );
+});
+
+test("JSON format of Try", () => {
+  expect(JSON.stringify(new Success(1))).toEqual(
+    '{"_tag":"Success","value":1}',
+  );
+  const error = new TypeError("not a function");
+  expect(JSON.stringify(new Failure(error))).toEqual(
+    '{"_tag":"Failure","error":{"name":"TypeError","message":"not a function"}}',
+  );
+
+  const decoded = Try.fromJSON(number)(
+    JSON.parse(JSON.stringify(new Failure<number>(error))),
+  ).getOrElse(new Success(0));
+  expect(decoded.failed().get()).toBeInstanceOf(Error);
+  expect(decoded.failed().get()).toMatchObject({
+    name: "TypeError",
+    message: "not a function",
+  });
+
+  // @ts-expect-error The default decoder only rebuilds an Error
+  const wrong: Decoder<Try<number, string>> = Try.fromJSON(number);
+  expect(wrong).toBeDefined();
+
+  const decoder = Try.fromJSON(number, string);
+  expect(roundTrip(new Success<number, string>(1), decoder)).toEqual(
+    Either.asRight(new Success(1)),
+  );
+  expect(roundTrip(new Failure<number, string>("error"), decoder)).toEqual(
+    Either.asRight(new Failure("error")),
+  );
+});
+
+test("JSON format of List", () => {
+  expect(JSON.stringify(List.of(1, 2))).toEqual(
+    '{"_tag":"List","values":[1,2]}',
+  );
+
+  const decoder = List.fromJSON(number);
+  const decoded = roundTrip(List.of(1, 2, 3), decoder);
+  expect(decoded.map((list) => list.toArray())).toEqual(
+    Either.asRight([1, 2, 3]),
+  );
+  expect(
+    roundTrip(List.of<number>(), decoder).map((list) => list.isEmpty()),
+  ).toEqual(Either.asRight(true));
+
+  const long = List.fromIterable(Array.from({ length: 100_000 }, (_, i) => i));
+  expect(roundTrip(long, decoder).map((list) => list.equals(long))).toEqual(
+    Either.asRight(true),
+  );
+});
+
+test("JSON format of Validation", () => {
+  const decoder = Validation.fromJSON(array(string), number);
+  expect(roundTrip(Validation.valid<string[], number>(1), decoder)).toEqual(
+    Either.asRight(Validation.valid(1)),
+  );
+  expect(
+    roundTrip(Validation.invalid<string[], number>(["a", "b"]), decoder),
+  ).toEqual(Either.asRight(Validation.invalid(["a", "b"])));
+});
+
+test("JSON round trip of nested values", () => {
+  const value = List.of(
+    Option.pure(Either.asRight<string, boolean>(true)),
+    None.get<Either<string, boolean>>(),
+    Option.pure(Either.asLeft<string, boolean>("error")),
+  );
+  const decoder = List.fromJSON(
+    Option.fromJSON(Either.fromJSON(string, boolean)),
+  );
+
+  const decoded = roundTrip(value, decoder);
+  expect(decoded.map((list) => list.equals(value))).toEqual(
+    Either.asRight(true),
+  );
+});
+
+test("JSON decoders report where the input is invalid", () => {
+  const decoder = List.fromJSON(Option.fromJSON(number));
+
+  const error = decoder({
+    _tag: "List",
+    values: [
+      { _tag: "Some", value: 1 },
+      { _tag: "Some", value: "2" },
+      { _tag: "Maybe" },
+      null,
+    ],
+  });
+  expect(error.mapLeft(formatDecodeError)).toEqual(
+    Either.asLeft(
+      [
+        'values.1.value: expected a number, got "2"',
+        'values.2._tag: expected one of "Some", "None", got "Maybe"',
+        "values.3: expected an Option, got null",
+      ].join("\n"),
+    ),
+  );
+  expect(decoder([1, 2]).mapLeft(formatDecodeError)).toEqual(
+    Either.asLeft("<root>: expected a List, got an array"),
+  );
+});
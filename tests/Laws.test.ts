@@ -0,0 +1,133 @@
+import {
+  EitherMonad,
+  IOMonad,
+  ListMonad,
+  OptionMonad,
+  TryMonad,
+  OptionKind,
+  getWriterMonad,
+} from "../Instances";
+import { Monad } from "../Typeclass";
+import { checkEqLaws, checkMonadLaws, checkMonoidLaws } from "../Laws";
+import {
+  array,
+  boolean,
+  eitherOf,
+  integer,
+  ioOf,
+  listOf,
+  optionOf,
+  string,
+  tryOf,
+  writerOf,
+} from "../Arbitrary";
+import {
+  AllMonoid,
+  AnyMonoid,
+  FirstMonoid,
+  LastMonoid,
+  ListMonoid,
+  OptionMonoid,
+  ProductMonoid,
+  StringConcatMonoid,
+  SumMonoid,
+} from "../Monoid";
+import { ArrayEq, DefaultEq, contramap } from "../Eq";
+import Option, { None } from "../Option";
+import Either from "../Either";
+import Try from "../Try";
+import List from "../List";
+import Writer from "../Writer";
+import IO from "../IO";
+import { expect, test } from "@jest/globals";
+
+test("Laws Option monad", () => {
+  checkMonadLaws(OptionMonad, optionOf, Option.getEq(DefaultEq));
+});
+
+test("Laws Either monad", () => {
+  checkMonadLaws(
+    EitherMonad,
+    (value) => eitherOf(string, value),
+    Either.getEq(DefaultEq, DefaultEq),
+  );
+});
+
+test("Laws Try monad", () => {
+  checkMonadLaws(
+    TryMonad,
+    (value) => tryOf(value, string),
+    Try.getEq(DefaultEq, DefaultEq),
+  );
+});
+
+test("Laws List monad", () => {
+  checkMonadLaws(ListMonad, listOf, List.getEq(DefaultEq), { maxSize: 10 });
+});
+
+test("Laws Writer monad", () => {
+  checkMonadLaws(
+    getWriterMonad(StringConcatMonoid),
+    (value) => writerOf(StringConcatMonoid, string, value),
+    Writer.getEq(DefaultEq, DefaultEq),
+  );
+});
+
+test("Laws IO monad", () => {
+  checkMonadLaws(
+    IOMonad,
+    ioOf,
+    contramap(DefaultEq, (io: IO<number>) => io.runUnsafe()),
+  );
+});
+
+test("Laws monoids", () => {
+  checkMonoidLaws(SumMonoid, integer());
+  checkMonoidLaws(ProductMonoid, integer());
+  checkMonoidLaws(StringConcatMonoid, string);
+  checkMonoidLaws(AllMonoid, boolean);
+  checkMonoidLaws(AnyMonoid, boolean);
+  checkMonoidLaws(ListMonoid<number>(), array(integer()), ArrayEq(DefaultEq));
+  checkMonoidLaws(
+    FirstMonoid<number>(),
+    optionOf(integer()),
+    Option.getEq(DefaultEq),
+  );
+  checkMonoidLaws(
+    LastMonoid<number>(),
+    optionOf(integer()),
+    Option.getEq(DefaultEq),
+  );
+  checkMonoidLaws(
+    OptionMonoid(SumMonoid),
+    optionOf(integer()),
+    Option.getEq(DefaultEq),
+  );
+});
+
+test("Laws Eq instances", () => {
+  checkEqLaws(Option.getEq(DefaultEq), optionOf(integer(0, 3)));
+  checkEqLaws(List.getEq(DefaultEq), listOf(integer(0, 1)), { maxSize: 3 });
+  checkEqLaws(
+    Either.getEq(DefaultEq, DefaultEq),
+    eitherOf(integer(0, 2), integer(0, 2)),
+  );
+});
+
+test("Laws report the broken law with a counterexample", () => {
+  const SubtractMonoid = { pure: 0, combine: (x: number, y: number) => x - y };
+  expect(() =>
+    checkMonoidLaws(SubtractMonoid, integer(), DefaultEq, { seed: 1 }),
+  ).toThrow(/Semigroup associativity failed .*\nCounterexample: \[ 0, 0, 1 \]/);
+
+  // A broken monad, whose `bind` forgets the value
+  const BrokenMonad: Monad<OptionKind> = {
+    ...OptionMonad,
+    bind: () => None.get(),
+  };
+  expect(() =>
+    checkMonadLaws(BrokenMonad, optionOf, Option.getEq(DefaultEq), {
+      seed: 1,
+    }),
+  ).toThrow(/Monad left identity failed/);
+});
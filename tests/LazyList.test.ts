@@ -0,0 +1,83 @@
+import LazyList from "../LazyList";
+import { expect, test } from "@jest/globals";
+
+test("LazyList infinite sequences", () => {
+  expect(
+    LazyList.iterate(1, (x) => x * 2)
+      .take(5)
+      .toArray(),
+  ).toEqual([1, 2, 4, 8, 16]);
+  expect(LazyList.repeat("a").take(3).toArray()).toEqual(["a", "a", "a"]);
+  expect(
+    LazyList.range(0)
+      .takeWhile((x) => x < 4)
+      .toArray(),
+  ).toEqual([0, 1, 2, 3]);
+});
+
+test("LazyList ranges", () => {
+  expect(LazyList.range(0, 5).toArray()).toEqual([0, 1, 2, 3, 4]);
+  expect(LazyList.range(5, 0, -2).toArray()).toEqual([5, 3, 1]);
+  expect(LazyList.range(3, 3).isEmpty()).toBeTruthy();
+});
+
+test("LazyList laziness", () => {
+  let evaluated = 0;
+  const list = LazyList.iterate(0, (x) => {
+    evaluated++;
+    return x + 1;
+  }).map((x) => x * 10);
+
+  expect(evaluated).toEqual(0);
+  expect(list.take(3).toArray()).toEqual([0, 10, 20]);
+  expect(evaluated).toEqual(2);
+
+  // Tails are only computed once
+  list.take(3).toArray();
+  expect(evaluated).toEqual(2);
+});
+
+test("LazyList filter and bind on infinite lists", () => {
+  const naturals = LazyList.range(1);
+  expect(
+    naturals
+      .filter((x) => x % 3 == 0)
+      .take(3)
+      .toArray(),
+  ).toEqual([3, 6, 9]);
+  expect(
+    naturals
+      .bind((x) => LazyList.of(x, -x))
+      .take(4)
+      .toArray(),
+  ).toEqual([1, -1, 2, -2]);
+});
+
+test("LazyList drop and conversions", () => {
+  const list = LazyList.range(0).drop(10).take(3);
+  expect([...list]).toEqual([10, 11, 12]);
+  expect(list.toList().toArray()).toEqual([10, 11, 12]);
+  expect(LazyList.fromIterable(new Set([1, 2])).toArray()).toEqual([1, 2]);
+  expect(list.foldLeft(0)((acc, x) => acc + x)).toEqual(33);
+});
+
+test("LazyList stack safety", () => {
+  const large = 1_000_000;
+  expect(
+    LazyList.range(0)
+      .filter((x) => x >= large)
+      .take(1)
+      .toArray(),
+  ).toEqual([large]);
+  expect(
+    LazyList.range(0)
+      .bind((x) => (x < large ? LazyList.of<number>() : LazyList.of(x)))
+      .take(1)
+      .toArray(),
+  ).toEqual([large]);
+  expect(
+    LazyList.range(0, large)
+      .drop(large - 1)
+      .toArray(),
+  ).toEqual([large - 1]);
+});
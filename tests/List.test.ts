@@ -0,0 +1,147 @@
+import List, { Empty } from "../List";
+import { expect, test } from "@jest/globals";
+import { isNone } from "../Option";
+
+const large = 100_000;
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+test("List construction", () => {
+  expect(List.of(1, 2, 3).toArray()).toEqual([1, 2, 3]);
+  expect(List.fromIterable(new Set(["a", "b"])).toArray()).toEqual(["a", "b"]);
+  expect(List.of().isEmpty()).toBeTruthy();
+  expect(List.of(1).isEmpty()).toBeFalsy();
+  expect(List.of<number>()).toBe(Empty.get<number>());
+});
+
+test("List iteration", () => {
+  const seen: number[] = [];
+  for (const value of List.of(1, 2, 3)) seen.push(value);
+  expect(seen).toEqual([1, 2, 3]);
+  expect([...List.of("a", "b")]).toEqual(["a", "b"]);
+});
+
+test("List map, filter and bind", () => {
+  const list = List.of(1, 2, 3, 4);
+  expect(list.map((x) => x * 2).toArray()).toEqual([2, 4, 6, 8]);
+  expect(list.filter((x) => x % 2 == 0).toArray()).toEqual([2, 4]);
+  expect(list.bind((x) => List.of(x, -x)).toArray()).toEqual([
+    1, -1, 2, -2, 3, -3, 4, -4,
+  ]);
+});
+
+test("List folds", () => {
+  const list = List.of("a", "b", "c");
+  expect(list.foldLeft("")((acc, head) => acc + head)).toEqual("abc");
+  expect(list.foldRight("")((acc, head) => acc + head)).toEqual("cba");
+});
+
+test("List match", () => {
+  List.of(1, 2).match({
+    ifPair: (head, tail) => {
+      expect(head).toEqual(1);
+      expect(tail.toArray()).toEqual([2]);
+    },
+    ifEmpty: () => {
+      throw new Error("Failed Branch");
+    },
+  });
+});
+
+test("List stack safety on large lists", () => {
+  const list = List.fromIterable(range(large));
+
+  expect(list.map((x) => x + 1).foldLeft(0)((acc, x) => acc + x)).toEqual(
+    (large * (large + 1)) / 2,
+  );
+  expect(list.filter((x) => x % 2 == 0).toArray().length).toEqual(large / 2);
+  expect(list.bind((x) => List.of(x, x)).toArray().length).toEqual(large * 2);
+  expect(list.foldRight(0)((acc, x) => acc + x)).toEqual(
+    (large * (large - 1)) / 2,
+  );
+
+  let count = 0;
+  list.foreach(() => count++);
+  expect(count).toEqual(large);
+});
+
+test("List head, tail and find", () => {
+  const list = List.of(1, 2, 3);
+  expect(list.head().getOrElse(-1)).toEqual(1);
+  expect(isNone(List.of<number>().head())).toBeTruthy();
+  expect(list.tail().getOrElse(List.of()).toArray()).toEqual([2, 3]);
+  expect(isNone(List.of<number>().tail())).toBeTruthy();
+  expect(list.find((x) => x > 1).getOrElse(-1)).toEqual(2);
+  expect(isNone(list.find((x) => x > 3))).toBeTruthy();
+  expect(list.indexOf(3).getOrElse(-1)).toEqual(2);
+  expect(isNone(list.indexOf(4))).toBeTruthy();
+});
+
+test("List length, reverse, append and concat", () => {
+  const list = List.of(1, 2, 3);
+  expect(list.length()).toEqual(3);
+  expect(List.of().length()).toEqual(0);
+  expect(list.reverse().toArray()).toEqual([3, 2, 1]);
+  expect(list.append(4).toArray()).toEqual([1, 2, 3, 4]);
+  expect(list.concat(List.of(4, 5)).toArray()).toEqual([1, 2, 3, 4, 5]);
+});
+
+test("List take, drop and splitAt", () => {
+  const list = List.of(1, 2, 3, 4);
+  expect(list.take(2).toArray()).toEqual([1, 2]);
+  expect(list.take(10).toArray()).toEqual([1, 2, 3, 4]);
+  expect(list.drop(3).toArray()).toEqual([4]);
+  expect(list.drop(10).isEmpty()).toBeTruthy();
+
+  const [prefix, rest] = list.splitAt(1);
+  expect(prefix.toArray()).toEqual([1]);
+  expect(rest.toArray()).toEqual([2, 3, 4]);
+});
+
+test("List zip, zipWith and unzip", () => {
+  const zipped = List.of(1, 2, 3).zip(List.of("a", "b"));
+  expect(zipped.toArray()).toEqual([
+    [1, "a"],
+    [2, "b"],
+  ]);
+  expect(
+    List.of(1, 2)
+      .zipWith(List.of(10, 20), (a, b) => a + b)
+      .toArray(),
+  ).toEqual([11, 22]);
+
+  const [numbers, letters] = zipped.unzip();
+  expect(numbers.toArray()).toEqual([1, 2]);
+  expect(letters.toArray()).toEqual(["a", "b"]);
+});
+
+test("List sortBy, groupBy, partition and distinct", () => {
+  const words = List.of("pear", "fig", "apple", "kiwi", "fig");
+  expect(words.sortBy((a, b) => a.length - b.length).toArray()).toEqual([
+    "fig",
+    "fig",
+    "pear",
+    "kiwi",
+    "apple",
+  ]);
+
+  const groups = words.groupBy((word) => word.length);
+  expect(Array.from(groups.keys())).toEqual([4, 3, 5]);
+  expect(groups.get(4)?.toArray()).toEqual(["pear", "kiwi"]);
+
+  const [short, long] = words.partition((word) => word.length < 4);
+  expect(short.toArray()).toEqual(["fig", "fig"]);
+  expect(long.toArray()).toEqual(["pear", "apple", "kiwi"]);
+
+  expect(words.distinct().toArray()).toEqual(["pear", "fig", "apple", "kiwi"]);
+});
+
+test("List equals", () => {
+  expect(List.of(1, 2).equals(List.of(1, 2))).toBeTruthy();
+  expect(List.of(1, 2).equals(List.of(1))).toBeFalsy();
+  expect(List.of(1).equals(List.of(1, 2))).toBeFalsy();
+  expect(
+    List.of({ id: 1 }).equals(List.of({ id: 1 }), {
+      equals: (a, b) => a.id === b.id,
+    }),
+  ).toBeTruthy();
+});
@@ -0,0 +1,105 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Writer from "../Writer";
+import {
+  LevelOrd,
+  Log,
+  LogMonoid,
+  captureSink,
+  debug,
+  error,
+  fileSink,
+  filterLevel,
+  flush,
+  format,
+  info,
+  jsonLinesSink,
+  makeLogger,
+  warn,
+} from "../Log";
+import { expect, test } from "@jest/globals";
+
+const withdraw = (balance: number, amount: number): Writer<Log, number> =>
+  debug("withdraw requested", { amount }).bind(() =>
+    amount > balance
+      ? error("insufficient funds", { balance, amount }).map(() => balance)
+      : info("withdrawn", { amount }).map(() => balance - amount),
+  );
+
+test("Log helpers write structured entries", () => {
+  const [value, log] = withdraw(100, 30)
+    .bind((balance) => warn("balance low").map(() => balance))
+    .run();
+
+  expect(value).toEqual(70);
+  expect(log).toEqual([
+    { level: "debug", message: "withdraw requested", fields: { amount: 30 } },
+    { level: "info", message: "withdrawn", fields: { amount: 30 } },
+    { level: "warn", message: "balance low", fields: {} },
+  ]);
+});
+
+test("Log levels are ordered by severity", () => {
+  expect(LevelOrd.compare("debug", "info")).toEqual(-1);
+  expect(LevelOrd.compare("error", "warn")).toEqual(1);
+  expect(LevelOrd.equals("warn", "warn")).toBe(true);
+});
+
+test("Log makeLogger stamps entries with its clock", () => {
+  const date = new Date(Date.UTC(2024, 0, 1));
+  const { info } = makeLogger(() => date);
+  const [entry] = info("hello", { user: "ada" }).log;
+
+  expect(entry.timestamp).toBe(date);
+  expect(format(entry)).toEqual(
+    '2024-01-01T00:00:00.000Z [INFO] hello user="ada"',
+  );
+});
+
+test("Log flush writes to sinks with level filtering", () => {
+  const all = captureSink();
+  const errors = captureSink();
+  const lines: string[] = [];
+  const program = flush(withdraw(10, 30), [
+    all,
+    filterLevel(errors, "error"),
+    jsonLinesSink(lines),
+  ]);
+
+  expect(all.entries).toEqual([]);
+  expect(program.runUnsafe()).toEqual(10);
+  expect(all.entries.map((entry) => entry.level)).toEqual(["debug", "error"]);
+  expect(errors.entries.map((entry) => entry.message)).toEqual([
+    "insufficient funds",
+  ]);
+  expect(lines.map((line) => JSON.parse(line).message)).toEqual([
+    "withdraw requested",
+    "insufficient funds",
+  ]);
+
+  const infos = captureSink();
+  flush(withdraw(100, 30), [infos], "info").runUnsafe();
+  expect(infos.entries.map((entry) => entry.message)).toEqual(["withdrawn"]);
+});
+
+test("Log fileSink appends JSON lines", () => {
+  const dir = mkdtempSync(join(tmpdir(), "log-"));
+  const path = join(dir, "audit.log");
+  const log = Writer.of(undefined, LogMonoid)
+    .bind(() => info("first"))
+    .bind(() => info("second", { n: 2 }));
+
+  try {
+    flush(log, [fileSink(path)]).runUnsafe();
+    flush(log, [fileSink(path)], "warn").runUnsafe();
+
+    const lines = readFileSync(path, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { level: "info", message: "first", fields: {} },
+      { level: "info", message: "second", fields: { n: 2 } },
+    ]);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+});
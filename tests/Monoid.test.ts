@@ -0,0 +1,121 @@
+import {
+  AllMonoid,
+  AnyMonoid,
+  concatAll,
+  EndoMonoid,
+  FirstMonoid,
+  fold,
+  foldMap,
+  FunctionMonoid,
+  LastMonoid,
+  MapMonoid,
+  MaxMonoid,
+  MinMonoid,
+  MinSemigroup,
+  OptionMonoid,
+  ProductMonoid,
+  RecordMonoid,
+  reverse,
+  StringConcatMonoid,
+  StructMonoid,
+  SumMonoid,
+  TupleMonoid,
+} from "../Monoid";
+import { NumberOrd } from "../Ord";
+import Option, { isNone, None } from "../Option";
+import List from "../List";
+import Writer from "../Writer";
+import { expect, test } from "@jest/globals";
+
+test("Number and boolean monoids", () => {
+  expect(fold(SumMonoid)([1, 2, 3])).toEqual(6);
+  expect(fold(ProductMonoid)([2, 3, 4])).toEqual(24);
+  expect(fold(AllMonoid)([true, false])).toBeFalsy();
+  expect(fold(AllMonoid)([])).toBeTruthy();
+  expect(fold(AnyMonoid)([false, true])).toBeTruthy();
+  expect(fold(MinMonoid(NumberOrd, Infinity))([3, 1, 2])).toEqual(1);
+  expect(fold(MaxMonoid(NumberOrd, -Infinity))([3, 1, 2])).toEqual(3);
+  expect(concatAll(MinSemigroup(NumberOrd), 0)([3, -1, 2])).toEqual(-1);
+});
+
+test("Option monoids", () => {
+  const options = [None.get<number>(), Option.pure(1), Option.pure(2)];
+  expect(fold(FirstMonoid<number>())(options).getOrElse(-1)).toEqual(1);
+  expect(fold(LastMonoid<number>())(options).getOrElse(-1)).toEqual(2);
+  expect(fold(OptionMonoid(SumMonoid))(options).getOrElse(-1)).toEqual(3);
+  expect(isNone(fold(OptionMonoid(SumMonoid))([]))).toBeTruthy();
+});
+
+test("Struct, tuple, record and map monoids", () => {
+  const stats = StructMonoid({ count: SumMonoid, names: StringConcatMonoid });
+  expect(
+    fold(stats)([
+      { count: 1, names: "a" },
+      { count: 2, names: "b" },
+    ]),
+  ).toEqual({ count: 3, names: "ab" });
+
+  const pair = TupleMonoid(SumMonoid, AllMonoid);
+  expect(
+    fold(pair)([
+      [1, true],
+      [2, false],
+    ]),
+  ).toEqual([3, false]);
+
+  expect(
+    RecordMonoid(SumMonoid).combine({ a: 1, b: 2 }, { b: 3, c: 4 }),
+  ).toEqual({ a: 1, b: 5, c: 4 });
+  // Inherited properties of the left record are not combined
+  expect(RecordMonoid(SumMonoid).combine({}, { toString: 1 })).toEqual({
+    toString: 1,
+  });
+  // A "__proto__" key is withProto as a field, not as the prototype
+  const withProto = RecordMonoid(SumMonoid).combine(
+    { a: 1 },
+    JSON.parse('{"__proto__":2,"a":3}'),
+  );
+  expect(Object.getPrototypeOf(withProto)).toBe(Object.prototype);
+  expect(Object.keys(withProto)).toEqual(["a", "__proto__"]);
+  expect(withProto["__proto__"]).toEqual(2);
+  expect(withProto.a).toEqual(4);
+
+  const merged = MapMonoid<string, number>(SumMonoid).combine(
+    new Map([["a", 1]]),
+    new Map([
+      ["a", 2],
+      ["b", 3],
+    ]),
+  );
+  expect(Array.from(merged.entries())).toEqual([
+    ["a", 3],
+    ["b", 3],
+  ]);
+});
+
+test("Function monoids", () => {
+  const pipeline = fold(EndoMonoid<number>())([(x) => x + 1, (x) => x * 10]);
+  expect(pipeline(1)).toEqual(20);
+
+  const both = FunctionMonoid<string, string>(StringConcatMonoid).combine(
+    (s) => s.toUpperCase(),
+    (s) => s.toLowerCase(),
+  );
+  expect(both("Ab")).toEqual("ABab");
+});
+
+test("Combinators", () => {
+  expect(fold(reverse(StringConcatMonoid))(["a", "b", "c"])).toEqual("cba");
+  expect(foldMap(SumMonoid, (s: string) => s.length)(["ab", "c"])).toEqual(3);
+});
+
+test("List folds with any monoid", () => {
+  const list = List.of(1, 2, 3);
+  expect(list.fold(SumMonoid)).toEqual(6);
+  expect(list.foldMap(StringConcatMonoid, (x) => `${x}`)).toEqual("123");
+});
+
+test("Writer with a library monoid", () => {
+  const writer = Writer.of(1, SumMonoid).tell(2).tell(3);
+  expect(writer.run()).toEqual([1, 5]);
+});
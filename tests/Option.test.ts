@@ -1,5 +1,7 @@
 import Option, { isNone, isSome, None } from "../Option";
 import { expect, test } from "@jest/globals";
+import List from "../List";
+import Either from "../Either";
 
 const ThrowFailedBranchError = () => {
   throw new Error("Failed Branch");
@@ -93,3 +95,199 @@ test("fromNullable", () => {
   expect(isNone(Option.fromNullable(null))).toEqual(true);
   expect(isSome(Option.fromNullable(234))).toEqual(true);
 });
+
+test("traverse and sequence", () => {
+  const half = (x: number) =>
+    x % 2 == 0 ? Option.pure(x / 2) : None.get<number>();
+
+  expect(Option.traverse([2, 4, 6], half).getOrElse([])).toEqual([1, 2, 3]);
+  expect(isNone(Option.traverse([2, 3, 4], half))).toBeTruthy();
+  expect(
+    Option.sequence([Option.pure(1), Option.pure(2)]).getOrElse([]),
+  ).toEqual([1, 2]);
+  expect(
+    isNone(Option.sequence([Option.pure(1), None.get<number>()])),
+  ).toBeTruthy();
+
+  let calls = 0;
+  Option.traverse([1, 2, 3], (x) => {
+    calls++;
+    return half(x);
+  });
+  expect(calls).toEqual(1);
+});
+
+test("traverse large inputs", () => {
+  const values = Array.from({ length: 100_000 }, (_, i) => i);
+  expect(Option.traverse(values, Option.pure).getOrElse([]).length).toEqual(
+    values.length,
+  );
+});
+
+test("traverseRecord and sequenceRecord", () => {
+  expect(
+    Option.sequenceRecord({ a: Option.pure(1), b: Option.pure("b") }).getOrElse(
+      {
+        a: 0,
+        b: "",
+      },
+    ),
+  ).toEqual({ a: 1, b: "b" });
+  expect(
+    isNone(Option.sequenceRecord({ a: Option.pure(1), b: None.get<string>() })),
+  ).toBeTruthy();
+  expect(
+    Option.traverseRecord({ a: "1", b: "2" }, (value, key) =>
+      Option.pure(key + value),
+    ).getOrElse({ a: "", b: "" }),
+  ).toEqual({ a: "a1", b: "b2" });
+});
+
+test("traverseList", () => {
+  const list = List.of(1, 2, 3);
+  expect(
+    Option.traverseList(list, (x) => Option.pure(x * 2))
+      .getOrElse(List.of())
+      .toArray(),
+  ).toEqual([2, 4, 6]);
+  expect(
+    isNone(
+      Option.traverseList(list, (x) => Option.fromNullable(x > 2 ? null : x)),
+    ),
+  ).toBeTruthy();
+});
+
+test("getOrElse with a lazy default", () => {
+  let calls = 0;
+  const fallback = () => {
+    calls++;
+    return 0;
+  };
+
+  expect(Option.pure(1).getOrElse(fallback)).toEqual(1);
+  expect(Option.pure(2).getOrElse(fallback)).toEqual(2);
+  expect(calls).toEqual(0);
+  expect(None.get<number>().getOrElse(fallback)).toEqual(0);
+  expect(calls).toEqual(1);
+  expect(None.get<number>().getOrElse(5)).toEqual(5);
+  expect(calls).toEqual(1);
+});
+
+test("getOrElseGet computes the default lazily", () => {
+  let calls = 0;
+  const fallback = () => {
+    calls++;
+    return 0;
+  };
+
+  expect(Option.pure(1).getOrElseGet(fallback)).toEqual(1);
+  expect(calls).toEqual(0);
+  expect(None.get<number>().getOrElseGet(fallback)).toEqual(0);
+  expect(calls).toEqual(1);
+  expect(None.get<() => number>().getOrElseGet(() => fallback)).toBe(fallback);
+  expect(calls).toEqual(1);
+});
+
+test("getOrThrow, orNull and orUndefined", () => {
+  const error = new Error("missing");
+
+  expect(Option.pure(1).getOrThrow(error)).toEqual(1);
+  expect(() => None.get<number>().getOrThrow(error)).toThrow(error);
+  expect(() => None.get<number>().getOrThrow()).toThrow("Option is None");
+  expect(Option.pure(1).orNull()).toEqual(1);
+  expect(None.get<number>().orNull()).toBeNull();
+  expect(Option.pure(1).orUndefined()).toEqual(1);
+  expect(None.get<number>().orUndefined()).toBeUndefined();
+});
+
+test("fold", () => {
+  expect(
+    Option.pure(1).fold(
+      () => "none",
+      (x) => `some ${x}`,
+    ),
+  ).toEqual("some 1");
+  expect(
+    None.get<number>().fold(
+      () => "none",
+      (x) => `some ${x}`,
+    ),
+  ).toEqual("none");
+});
+
+test("filter", () => {
+  const even = (x: number) => x % 2 === 0;
+  expect(Option.pure(2).filter(even)).toEqual(Option.pure(2));
+  expect(isNone(Option.pure(1).filter(even))).toBeTruthy();
+  expect(isNone(None.get<number>().filter(even))).toBeTruthy();
+
+  const isString = (x: unknown): x is string => typeof x === "string";
+  const narrowed: Option<string> = Option.pure<unknown>("a").filter(isString);
+  expect(narrowed).toEqual(Option.pure("a"));
+});
+
+test("exists, forall and contains", () => {
+  const positive = (x: number) => x > 0;
+
+  expect(Option.pure(1).exists(positive)).toBe(true);
+  expect(Option.pure(-1).exists(positive)).toBe(false);
+  expect(None.get<number>().exists(positive)).toBe(false);
+  expect(Option.pure(1).forall(positive)).toBe(true);
+  expect(Option.pure(-1).forall(positive)).toBe(false);
+  expect(None.get<number>().forall(positive)).toBe(true);
+  expect(Option.pure(1).contains(1)).toBe(true);
+  expect(Option.pure(1).contains(2)).toBe(false);
+  expect(None.get<number>().contains(1)).toBe(false);
+  expect(Option.pure(List.of(1)).contains(List.of(1))).toBe(true);
+});
+
+test("zip and zipWith", () => {
+  const none = None.get<number>();
+
+  expect(Option.pure(1).zip(Option.pure("a"))).toEqual(Option.pure([1, "a"]));
+  expect(isNone(Option.pure(1).zip(none))).toBeTruthy();
+  expect(isNone(none.zip(Option.pure(1)))).toBeTruthy();
+  expect(Option.pure(1).zipWith(Option.pure(2), (a, b) => a + b)).toEqual(
+    Option.pure(3),
+  );
+  expect(isNone(none.zipWith(none, (a, b) => a + b))).toBeTruthy();
+});
+
+test("flatten", () => {
+  expect(Option.pure(Option.pure(1)).flatten()).toEqual(Option.pure(1));
+  expect(isNone(Option.pure(None.get<number>()).flatten())).toBeTruthy();
+  expect(isNone(None.get<Option<number>>().flatten())).toBeTruthy();
+});
+
+test("tap", () => {
+  const seen: number[] = [];
+  const some = Option.pure(1);
+  const none = None.get<number>();
+
+  expect(some.tap((x) => seen.push(x))).toBe(some);
+  expect(none.tap((x) => seen.push(x))).toBe(none);
+  expect(seen).toEqual([1]);
+});
+
+test("toArray, toList and toEither", () => {
+  expect(Option.pure(1).toArray()).toEqual([1]);
+  expect(None.get<number>().toArray()).toEqual([]);
+  expect(Option.pure(1).toList().toArray()).toEqual([1]);
+  expect(None.get<number>().toList().isEmpty()).toBe(true);
+  expect(Option.pure(1).toEither("missing")).toEqual(Either.asRight(1));
+  expect(None.get<number>().toEither("missing")).toEqual(
+    Either.asLeft("missing"),
+  );
+});
+
+test("when and tryCatch", () => {
+  let calls = 0;
+  const compute = () => ++calls;
+
+  expect(Option.when(true, compute)).toEqual(Option.pure(1));
+  expect(isNone(Option.when(false, compute))).toBeTruthy();
+  expect(calls).toEqual(1);
+
+  expect(Option.tryCatch(() => JSON.parse("[1]"))).toEqual(Option.pure([1]));
+  expect(isNone(Option.tryCatch(() => JSON.parse("[1")))).toBeTruthy();
+});
@@ -0,0 +1,54 @@
+import OptionT from "../OptionT";
+import Option, { None, isNone } from "../Option";
+import IO from "../IO";
+import Task from "../Task";
+import { IOKind, IOMonad, TaskKind, TaskMonad } from "../Instances";
+import { expect, test } from "@jest/globals";
+
+test("OptionT bind and map over IO", () => {
+  const effects: string[] = [];
+  const lookup = (key: string) =>
+    OptionT.from<IOKind, number>(
+      IOMonad,
+      IO.from(() => {
+        effects.push(key);
+        return key === "missing" ? None.get<number>() : Option.pure(1);
+      }),
+    );
+
+  const found = lookup("a")
+    .bind((a) => lookup("b").map((b) => a + b))
+    .run();
+  expect(effects).toEqual([]);
+  expect(found.runUnsafe()).toEqual(Option.pure(2));
+  expect(effects).toEqual(["a", "b"]);
+
+  effects.length = 0;
+  const missing = lookup("missing").bind(() => lookup("never"));
+  expect(isNone(missing.run().runUnsafe())).toBe(true);
+  expect(effects).toEqual(["missing"]);
+});
+
+test("OptionT orElse and getOrElse", () => {
+  const none = OptionT.none<IOKind, number>(IOMonad);
+  expect(none.getOrElse(5).runUnsafe()).toEqual(5);
+  expect(
+    none
+      .orElse(() => OptionT.of(IOMonad, 3))
+      .run()
+      .runUnsafe(),
+  ).toEqual(Option.pure(3));
+  expect(
+    OptionT.lift(IOMonad, IO.of(1))
+      .orElse(() => OptionT.of(IOMonad, 3))
+      .getOrElse(5)
+      .runUnsafe(),
+  ).toEqual(1);
+});
+
+test("OptionT over Task", async () => {
+  const result = OptionT.lift<TaskKind, number>(TaskMonad, Task.of(20))
+    .bind((x) => OptionT.fromOption(TaskMonad, Option.pure(x + 1)))
+    .map((x) => x * 2);
+  await expect(result.run().run()).resolves.toEqual(Option.pure(42));
+});
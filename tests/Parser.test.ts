@@ -0,0 +1,314 @@
+import Parser, {
+  ParseError,
+  between,
+  chainl1,
+  chainr1,
+  char,
+  choice,
+  eof,
+  formatParseError,
+  lookahead,
+  many,
+  many1,
+  optional,
+  regex,
+  satisfy,
+  sepBy,
+  sepBy1,
+  string,
+  whitespace,
+} from "../Parser";
+import Either from "../Either";
+import Option, { None } from "../Option";
+import { ParserMonad } from "../Instances";
+import { sequence } from "../Typeclass";
+import { checkMonadLaws } from "../Laws";
+import Arbitrary, { elements, oneOf, tuple } from "../Arbitrary";
+import { contramap, StrictEq } from "../Eq";
+import { expect, test } from "@jest/globals";
+
+function error<A>(result: Either<ParseError, A>): string {
+  return result.match({
+    ifLeft: formatParseError,
+    ifRight: (value) => `parsed ${JSON.stringify(value)}`,
+  });
+}
+
+test("Parser primitives", () => {
+  expect(char("a").parse("a")).toEqual(Either.asRight("a"));
+  expect(string("let").parse("let")).toEqual(Either.asRight("let"));
+  expect(
+    regex(/[0-9]+/)
+      .map(Number)
+      .parse("123"),
+  ).toEqual(Either.asRight(123));
+  expect(regex(/([a-z]+)=/, 1).parse("key=")).toEqual(Either.asRight("key"));
+  expect(satisfy((c) => c >= "0" && c <= "9", "a digit").parse("7")).toEqual(
+    Either.asRight("7"),
+  );
+  expect(eof.parse("")).toEqual(Either.asRight(undefined));
+
+  expect(error(char("a").parse("b"))).toEqual(
+    'line 1, column 1: expected "a", got "b"',
+  );
+  expect(error(string("let").parse("lex"))).toEqual(
+    'line 1, column 1: expected "let", got "l"',
+  );
+  expect(error(regex(/[0-9]+/).parse("x"))).toEqual(
+    'line 1, column 1: expected /[0-9]+/, got "x"',
+  );
+  expect(error(char("a").parse("ab"))).toEqual(
+    'line 1, column 2: expected end of input, got "b"',
+  );
+  expect(error(char("a").parse(""))).toEqual(
+    'line 1, column 1: expected "a", got end of input',
+  );
+});
+
+test("Parser is a monad", () => {
+  const pair = char("(")
+    .then(regex(/[a-z]+/))
+    .bind((key) =>
+      char(",")
+        .then(regex(/[0-9]+/))
+        .map((value) => [key, Number(value)]),
+    )
+    .skip(char(")"));
+  expect(pair.parse("(a,1)")).toEqual(Either.asRight(["a", 1]));
+
+  const gen = Parser.gen(function* () {
+    const key = yield* regex(/[a-z]+/);
+    yield* char("=");
+    const value = yield* regex(/[0-9]+/).map(Number);
+    return { key, value };
+  });
+  expect(many(gen.skip(optional(char(";")))).parse("a=1;b=2")).toEqual(
+    Either.asRight([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+    ]),
+  );
+
+  expect(sequence(ParserMonad)([char("a"), char("b")]).parse("ab")).toEqual(
+    Either.asRight(["a", "b"]),
+  );
+
+  // Parsers that succeed, consume a character or fail, and their choices
+  const parserOf = <A>(value: Arbitrary<A>): Arbitrary<Parser<A>> => {
+    const simple = oneOf(
+      value.map((x) => Parser.of(x)),
+      tuple(elements("a", "b"), value).map(([c, x]) => char(c).map(() => x)),
+      elements("x", "y").map((expected) => Parser.fail<A>(expected)),
+    );
+    return oneOf(
+      simple,
+      tuple(simple, simple).map(([first, second]) => first.or(second)),
+    );
+  };
+  // Compares the results and the input left by the parsers
+  const rest = many(regex(/./)).map((chars) => chars.join(""));
+  checkMonadLaws(
+    ParserMonad,
+    parserOf,
+    contramap(StrictEq, (parser: Parser<number>) =>
+      error(parser.bind((x) => rest.map((left) => [x, left])).parse("ab")),
+    ),
+    { runs: 50 },
+  );
+});
+
+test("Parser combinators", () => {
+  const digit = regex(/[0-9]/);
+  expect(many(digit).parse("")).toEqual(Either.asRight([]));
+  expect(many1(digit).parse("12")).toEqual(Either.asRight(["1", "2"]));
+  expect(error(many1(digit).parse(""))).toEqual(
+    "line 1, column 1: expected /[0-9]/, got end of input",
+  );
+
+  const list = between(char("["), char("]"), sepBy(digit, char(",")));
+  expect(list.parse("[]")).toEqual(Either.asRight([]));
+  expect(list.parse("[1,2,3]")).toEqual(Either.asRight(["1", "2", "3"]));
+  expect(error(list.parse("[1,2"))).toEqual(
+    'line 1, column 5: expected "," or "]", got end of input',
+  );
+  expect(error(sepBy1(digit, char(",")).parse(""))).toEqual(
+    "line 1, column 1: expected /[0-9]/, got end of input",
+  );
+
+  const keyword = choice(string("let"), string("var"), string("const"));
+  expect(keyword.parse("var")).toEqual(Either.asRight("var"));
+  expect(error(keyword.parse("x"))).toEqual(
+    'line 1, column 1: expected "let" or "var" or "const", got "x"',
+  );
+  // Alternatives backtrack, and the error is the one that went the furthest
+  expect(choice(string("ab"), string("ac")).parse("ac")).toEqual(
+    Either.asRight("ac"),
+  );
+
+  const sign = optional(char("-"));
+  expect(sign.skip(digit).parse("-1")).toEqual(
+    Either.asRight(Option.pure("-")),
+  );
+  expect(sign.skip(digit).parse("1")).toEqual(Either.asRight(None.get()));
+
+  const peek = lookahead(digit).bind((first) =>
+    many1(digit).map((all) => [first, all.join("")]),
+  );
+  expect(peek.parse("42")).toEqual(Either.asRight(["4", "42"]));
+
+  expect(
+    error(
+      regex(/[a-z]+/)
+        .label("an identifier")
+        .skip(char(";"))
+        .parse("1"),
+    ),
+  ).toEqual('line 1, column 1: expected an identifier, got "1"');
+});
+
+test("Parser chains operators", () => {
+  const number = regex(/[0-9]+/).map(Number);
+  const op = (c: string, func: (x: number, y: number) => number) =>
+    char(c).map(() => func);
+
+  const subtract = chainl1(
+    number,
+    op("-", (x, y) => x - y),
+  );
+  expect(subtract.parse("10-3-2")).toEqual(Either.asRight(5));
+
+  const power = chainr1(
+    number,
+    op("^", (x, y) => x ** y),
+  );
+  expect(power.parse("2^3^2")).toEqual(Either.asRight(512));
+  expect(power.parse("7")).toEqual(Either.asRight(7));
+});
+
+test("Parser reports lines and columns", () => {
+  const line = sepBy(regex(/[a-z]+/), char(" "));
+  const lines = sepBy(line, char("\n"));
+  expect(lines.parse("ab cd\nef")).toEqual(
+    Either.asRight([["ab", "cd"], ["ef"]]),
+  );
+  const result = lines.parse("ab cd\nef 1");
+  expect(error(result)).toEqual('line 2, column 4: expected /[a-z]+/, got "1"');
+  expect(result.mapLeft((e) => e.position)).toEqual(
+    Either.asLeft({ offset: 9, line: 2, column: 4 }),
+  );
+});
+
+test("Parser handles long inputs", () => {
+  const input = "a".repeat(100_000);
+  expect(
+    many(char("a"))
+      .map((as) => as.length)
+      .parse(input),
+  ).toEqual(Either.asRight(100_000));
+  // A repeated parser accepting the empty string stops instead of looping
+  expect(many(regex(/a*/)).parse("aaa")).toEqual(Either.asRight(["aaa"]));
+});
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+test("Parser example: JSON", () => {
+  const token = <A>(parser: Parser<A>) => parser.skip(whitespace);
+  const symbol = (c: string) => token(char(c));
+
+  const jsonString = token(
+    regex(/"((?:[^"\\]|\\.)*)"/, 1).label("a string"),
+  ).map((s) => JSON.parse(`"${s}"`) as string);
+  const jsonNumber = token(
+    regex(/-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/).label("a number"),
+  ).map(Number);
+  const literal = <A>(name: string, value: A) =>
+    token(string(name)).map(() => value);
+
+  const value: Parser<Json> = Parser.lazy(() =>
+    choice(
+      object,
+      array,
+      jsonString,
+      jsonNumber,
+      literal("true", true),
+      literal("false", false),
+      literal("null", null),
+    ),
+  );
+  const array = between(symbol("["), symbol("]"), sepBy(value, symbol(",")));
+  const member = jsonString
+    .skip(symbol(":"))
+    .bind((key) => value.map((v) => [key, v] as const));
+  const object = between(
+    symbol("{"),
+    symbol("}"),
+    sepBy(member, symbol(",")),
+  ).map((members) => {
+    const result: { [key: string]: Json } = {};
+    for (const [key, v] of members) result[key] = v;
+    return result;
+  });
+  const json = whitespace.then(value);
+
+  const text = `{
+    "name": "monads",
+    "version": 1.5,
+    "tags": ["fp", "ts\\n"],
+    "private": false,
+    "license": null,
+    "nested": { "empty": [], "deep": [[{}]] }
+  }`;
+  expect(json.parse(text)).toEqual(Either.asRight(JSON.parse(text)));
+
+  expect(error(json.parse('{ "a": [1, 2,, 3] }'))).toEqual(
+    'line 1, column 14: expected "{" or "[" or a string or a number or "true" or "false" or "null", got ","',
+  );
+  expect(error(json.parse('{\n  "a": 1\n  "b": 2\n}'))).toEqual(
+    'line 3, column 3: expected "," or "}", got "\\""',
+  );
+});
+
+test("Parser example: arithmetic", () => {
+  const token = <A>(parser: Parser<A>) => parser.skip(whitespace);
+  const op = (c: string, func: (x: number, y: number) => number) =>
+    token(char(c)).map(() => func);
+
+  const number = token(regex(/[0-9]+(\.[0-9]+)?/).label("a number")).map(
+    Number,
+  );
+  const expression: Parser<number> = Parser.lazy(() => sum);
+  const atom: Parser<number> = choice(
+    number,
+    between(token(char("(")), token(char(")")), expression),
+    token(char("-"))
+      .then(Parser.lazy(() => atom))
+      .map((x) => -x),
+  );
+  const power = chainr1(
+    atom,
+    op("^", (x, y) => x ** y),
+  );
+  const product = chainl1(
+    power,
+    op("*", (x, y) => x * y).or(op("/", (x, y) => x / y)),
+  );
+  const sum = chainl1(
+    product,
+    op("+", (x, y) => x + y).or(op("-", (x, y) => x - y)),
+  );
+  const evaluate = (input: string) => whitespace.then(expression).parse(input);
+
+  expect(evaluate("1 + 2 * 3")).toEqual(Either.asRight(7));
+  expect(evaluate("(1 + 2) * 3")).toEqual(Either.asRight(9));
+  expect(evaluate("10 - 4 - 3")).toEqual(Either.asRight(3));
+  expect(evaluate("2 ^ 3 ^ 2")).toEqual(Either.asRight(512));
+  expect(evaluate(" -2 * -(3 + 1) / 4 ")).toEqual(Either.asRight(2));
+  expect(evaluate("1.5 * 2")).toEqual(Either.asRight(3));
+
+  expect(error(evaluate("1 + * 2"))).toEqual(
+    'line 1, column 5: expected a number or "(" or "-", got "*"',
+  );
+  expect(error(evaluate("(1 + 2"))).toEqual(
+    'line 1, column 7: expected "^" or "*" or "/" or "+" or "-" or ")", got end of input',
+  );
+});
@@ -0,0 +1,72 @@
+import Reader from "../Reader";
+import IO from "../IO";
+import Either from "../Either";
+import Option from "../Option";
+import { expect, test } from "@jest/globals";
+
+type Env = { prefix: string; factor: number };
+const env: Env = { prefix: "value: ", factor: 10 };
+
+test("Reader ask and asks", () => {
+  expect(Reader.ask<Env>().run(env)).toBe(env);
+  expect(Reader.asks((e: Env) => e.factor).run(env)).toEqual(10);
+  expect(Reader.of<Env, number>(1).run(env)).toEqual(1);
+});
+
+test("Reader bind and map", () => {
+  const scale = (x: number) => Reader.asks((e: Env) => x * e.factor);
+  const show = (x: number) => Reader.asks((e: Env) => `${e.prefix}${x}`);
+
+  const program = Reader.of<Env, number>(4)
+    .bind(scale)
+    .map((x) => x + 2)
+    .bind(show);
+
+  expect(program.run(env)).toEqual("value: 42");
+  expect(program.run({ prefix: "", factor: 1 })).toEqual("6");
+});
+
+test("Reader local", () => {
+  const factor = Reader.asks((e: Env) => e.factor);
+  const doubled = factor.local((e: Env) => ({ ...e, factor: e.factor * 2 }));
+  expect(doubled.run(env)).toEqual(20);
+
+  const fromNumber = factor.local((n: number) => ({ prefix: "", factor: n }));
+  expect(fromNumber.run(3)).toEqual(3);
+});
+
+test("Reader lifting of IO, Either and Option", () => {
+  let effects = 0;
+  const io = IO.from(() => ++effects);
+  const lifted = Reader.fromIO<Env, number>(io).run(env);
+  expect(effects).toEqual(0);
+  expect(lifted.runUnsafe()).toEqual(1);
+
+  expect(
+    Reader.fromEither<Env, string, number>(Either.asRight(1))
+      .run(env)
+      .getOrElse(-1),
+  ).toEqual(1);
+  expect(
+    Reader.fromOption<Env, number>(Option.pure(1)).run(env).getOrElse(-1),
+  ).toEqual(1);
+
+  const log: string[] = [];
+  const write = Reader.asksIO((e: Env) =>
+    IO.from(() => {
+      log.push(e.prefix);
+    }),
+  ).run(env);
+  expect(log).toEqual([]);
+  write.runUnsafe();
+  expect(log).toEqual(["value: "]);
+});
+
+test("Reader gen", () => {
+  const program = Reader.gen(function* () {
+    const factor = yield* Reader.asks((e: Env) => e.factor);
+    const prefix = yield* Reader.asks((e: Env) => e.prefix);
+    return `${prefix}${factor * 2}`;
+  });
+  expect(program.run(env)).toEqual("value: 20");
+});
@@ -0,0 +1,65 @@
+import ReaderT from "../ReaderT";
+import EitherT, { EitherTKind } from "../EitherT";
+import Either from "../Either";
+import IO from "../IO";
+import { IOKind, IOMonad } from "../Instances";
+import { expect, test } from "@jest/globals";
+
+type Config = { factor: number; limit: number };
+const config: Config = { factor: 10, limit: 100 };
+
+test("ReaderT over IO", () => {
+  const effects: string[] = [];
+  const log = (message: string) =>
+    ReaderT.lift<IOKind, Config, void>(
+      IOMonad,
+      IO.from(() => {
+        effects.push(message);
+      }),
+    );
+
+  const program = ReaderT.asks(IOMonad, (c: Config) => c.factor)
+    .bind((factor) => log(`factor ${factor}`).map(() => factor * 4))
+    .map((x) => x + 2);
+
+  const io = program.run(config);
+  expect(effects).toEqual([]);
+  expect(io.runUnsafe()).toEqual(42);
+  expect(effects).toEqual(["factor 10"]);
+  expect(program.run({ factor: 1, limit: 0 }).runUnsafe()).toEqual(6);
+});
+
+test("ReaderT ask and local", () => {
+  const limit = ReaderT.ask<IOKind, Config>(IOMonad).map((c) => c.limit);
+  expect(limit.run(config).runUnsafe()).toEqual(100);
+  expect(
+    limit
+      .local((limit: number) => ({ factor: 0, limit }))
+      .run(7)
+      .runUnsafe(),
+  ).toEqual(7);
+});
+
+test("ReaderT over EitherT over IO as a flat stack", () => {
+  type App<A> = ReaderT<EitherTKind<IOKind, string>, Config, A>;
+  const AppMonad = EitherT.monad<IOKind, string>(IOMonad);
+
+  const scale = (x: number): App<number> =>
+    ReaderT.asks(AppMonad, (c: Config) => x * c.factor);
+  const check = (x: number): App<number> =>
+    ReaderT.from(AppMonad, (c: Config) =>
+      x > c.limit
+        ? EitherT.left(IOMonad, `${x} exceeds ${c.limit}`)
+        : EitherT.right(IOMonad, x),
+    );
+
+  const program = (x: number) =>
+    scale(x)
+      .bind(check)
+      .map((y) => y + 2);
+
+  expect(program(4).run(config).run().runUnsafe()).toEqual(Either.asRight(42));
+  expect(program(20).run(config).run().runUnsafe()).toEqual(
+    Either.asLeft("200 exceeds 100"),
+  );
+});
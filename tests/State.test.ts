@@ -0,0 +1,65 @@
+import State from "../State";
+import { expect, test } from "@jest/globals";
+
+const nextId = State.modify((n: number) => n + 1).bind(() =>
+  State.get<number>(),
+);
+
+test("State get, put, gets and modify", () => {
+  expect(State.get<number>().run(1)).toEqual([1, 1]);
+  expect(State.put(2).run(1)).toEqual([undefined, 2]);
+  expect(State.gets((s: string) => s.length).run("abc")).toEqual([3, "abc"]);
+  expect(State.modify((n: number) => n * 2).execState(21)).toEqual(42);
+  expect(State.of<number, string>("a").run(0)).toEqual(["a", 0]);
+});
+
+test("State bind and map", () => {
+  const program = nextId.bind((a) => nextId.map((b) => `${a},${b}`));
+  expect(program.run(0)).toEqual(["1,2", 2]);
+  expect(program.evalState(10)).toEqual("11,12");
+  expect(program.execState(10)).toEqual(12);
+});
+
+test("State traverse", () => {
+  const label = (name: string) => nextId.map((id) => `${id}:${name}`);
+  const program = State.traverse(["a", "b", "c"], label);
+
+  expect(program.run(0)).toEqual([["1:a", "2:b", "3:c"], 3]);
+  // Each run starts from its own state and collects its own results
+  expect(program.run(10)).toEqual([["11:a", "12:b", "13:c"], 13]);
+});
+
+test("State replicateM and whileM", () => {
+  expect(State.replicateM(3, nextId).run(0)).toEqual([[1, 2, 3], 3]);
+  expect(State.replicateM(0, nextId).run(0)).toEqual([[], 0]);
+
+  const belowFive = State.gets((n: number) => n < 5);
+  expect(State.whileM(belowFive, nextId).run(2)).toEqual([[3, 4, 5], 5]);
+  expect(State.whileM(belowFive, nextId).run(7)).toEqual([[], 7]);
+});
+
+test("State gen", () => {
+  const program = State.gen(function* () {
+    const a = yield* nextId;
+    yield* State.modify((n: number) => n * 10);
+    const b = yield* nextId;
+    return [a, b];
+  });
+  expect(program.run(0)).toEqual([[1, 11], 11]);
+});
+
+test("State stack safety", () => {
+  const steps = 1_000_000;
+
+  const countdown = (): State<number, string> =>
+    State.get<number>().bind((n) =>
+      n == 0 ? State.of("done") : State.put(n - 1).bind(() => countdown()),
+    );
+  expect(countdown().run(steps)).toEqual(["done", 0]);
+
+  let program = State.of<number, number>(0);
+  for (let i = 0; i < steps; i++) program = program.bind(() => nextId);
+  expect(program.run(0)).toEqual([steps, steps]);
+
+  expect(State.replicateM(steps, nextId).evalState(0).length).toEqual(steps);
+});
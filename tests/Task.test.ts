@@ -0,0 +1,66 @@
+import Task from "../Task";
+import IO from "../IO";
+import { expect, test } from "@jest/globals";
+
+test("Testing Task laziness", async () => {
+  const original = 0;
+  let a = original;
+  const program = Task.of(43).bind((value) => {
+    a += 1;
+    return Task.of(value);
+  });
+
+  expect(a).toEqual(original);
+  await program.run();
+  expect(a).toEqual(original + 1);
+
+  // Test side effects twice
+  await program.run();
+  expect(a).toEqual(original + 2);
+});
+
+test("Testing Task sequencing", async () => {
+  const order: string[] = [];
+  const delayed = (label: string, ms: number) =>
+    Task.from(
+      () =>
+        new Promise<string>((resolve) =>
+          setTimeout(() => {
+            order.push(label);
+            resolve(label);
+          }, ms),
+        ),
+    );
+
+  const program = delayed("first", 20).bind((first) =>
+    delayed("second", 0).map((second) => `${first} ${second}`),
+  );
+
+  expect(await program.run()).toEqual("first second");
+  expect(order).toEqual(["first", "second"]);
+});
+
+test("Testing Task rejection", async () => {
+  const error = new Error("boom");
+  let reached = false;
+  const program = Task.from<number>(() => Promise.reject(error)).map((x) => {
+    reached = true;
+    return x + 1;
+  });
+
+  await expect(program.run()).rejects.toBe(error);
+  expect(reached).toBeFalsy();
+});
+
+test("Testing Task from IO", async () => {
+  let a = 0;
+  const io = IO.from(() => {
+    a += 1;
+    return a;
+  });
+  const program = Task.fromIO(io).map((value) => value * 10);
+
+  expect(a).toEqual(0);
+  expect(await program.run()).toEqual(10);
+  expect(await program.run()).toEqual(20);
+});
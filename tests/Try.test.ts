@@ -0,0 +1,190 @@
+import util from "util";
+import Try, { Failure, Success, isFailure, isSuccess } from "../Try";
+import Either from "../Either";
+import Option, { isNone } from "../Option";
+import List from "../List";
+import { expect, test } from "@jest/globals";
+
+const parse = (text: string): Try<number> =>
+  isNaN(Number(text))
+    ? new Failure<number>(new Error(`${text} is not a number`))
+    : new Success<number>(Number(text));
+
+test("Try traverse and sequence", () => {
+  expect(Try.traverse(["1", "2"], parse).getOrElse([])).toEqual([1, 2]);
+  expect(Try.traverse(["1", "x"], parse)).toBeInstanceOf(Failure);
+  expect(
+    Try.traverse(["1"], (_text): Try<number> => {
+      throw new Error("thrown");
+    }),
+  ).toBeInstanceOf(Failure);
+  expect(Try.sequence([parse("1"), parse("2")]).getOrElse([])).toEqual([1, 2]);
+  expect(Try.sequence([parse("1"), parse("x")])).toBeInstanceOf(Failure);
+
+  const values = Array.from({ length: 100_000 }, (_, i) => `${i}`);
+  expect(Try.traverse(values, parse).getOrElse([]).length).toEqual(
+    values.length,
+  );
+});
+
+test("Try traverseRecord, sequenceRecord and traverseList", () => {
+  expect(
+    Try.sequenceRecord({ a: parse("1"), b: parse("2") }).getOrElse({
+      a: 0,
+      b: 0,
+    }),
+  ).toEqual({ a: 1, b: 2 });
+  expect(Try.sequenceRecord({ a: parse("1"), b: parse("x") })).toBeInstanceOf(
+    Failure,
+  );
+  expect(
+    Try.traverseRecord({ a: "1", b: "2" }, parse).getOrElse({ a: 0, b: 0 }),
+  ).toEqual({ a: 1, b: 2 });
+  expect(
+    Try.traverseList(List.of("1", "2"), parse).getOrElse(List.of()).toArray(),
+  ).toEqual([1, 2]);
+});
+
+test("Try of and from catch thrown errors", () => {
+  const rn = Math.random();
+  const error = new Error("thrown");
+
+  expect(isSuccess(Try.of(() => rn))).toBeTruthy();
+  expect(Try.of(() => rn).getOrElse(-1)).toEqual(rn);
+  expect(
+    isFailure(
+      Try.of(() => {
+        throw error;
+      }),
+    ),
+  ).toBeTruthy();
+  expect(Try.from(() => JSON.parse("[1]"))).toEqual(new Success([1]));
+  expect(isFailure(Try.from(() => JSON.parse("[1")))).toBeTruthy();
+});
+
+test("Try matching and fold", () => {
+  const success = parse("1");
+  const failure = parse("x");
+
+  expect(
+    success.match({ ifSuccess: (value) => value + 1, ifFailure: () => -1 }),
+  ).toEqual(2);
+  expect(
+    failure.match({
+      ifSuccess: (value) => `${value}`,
+      ifFailure: (error) => (error as Error).message,
+    }),
+  ).toEqual("x is not a number");
+  expect(
+    success.fold(
+      () => -1,
+      (value) => value * 2,
+    ),
+  ).toEqual(2);
+  expect(
+    failure.fold(
+      () => -1,
+      (value) => value * 2,
+    ),
+  ).toEqual(-1);
+});
+
+test("Try map and bind catch thrown errors", () => {
+  const error = new Error("thrown");
+  const throwing = (_value: number): number => {
+    throw error;
+  };
+
+  expect(parse("1").map((value) => value + 1)).toEqual(new Success(2));
+  expect(parse("1").map(throwing)).toEqual(new Failure(error));
+  expect(parse("1").bind((value) => parse(`${value}0`))).toEqual(
+    new Success(10),
+  );
+  expect(parse("1").bind((value) => new Success(throwing(value)))).toEqual(
+    new Failure(error),
+  );
+  expect(
+    isFailure(parse("x").bind((value) => new Success(value))),
+  ).toBeTruthy();
+});
+
+test("Try recover and recoverWith", () => {
+  expect(parse("x").recover(() => 0)).toEqual(new Success(0));
+  expect(parse("1").recover(() => 0)).toEqual(new Success(1));
+  expect(parse("x").recoverWith(() => parse("2"))).toEqual(new Success(2));
+  expect(isFailure(parse("x").recoverWith(() => parse("y")))).toBeTruthy();
+});
+
+test("Try filter", () => {
+  const positive = (value: number) => value > 0;
+
+  expect(parse("1").filter(positive)).toEqual(new Success(1));
+  expect(parse("-1").filter(positive).failed().get()).toEqual(
+    new Error("Predicate does not hold for -1"),
+  );
+  expect(
+    parse("-1")
+      .filter(positive, (value) => `${value} is negative`)
+      .failed()
+      .get(),
+  ).toEqual("-1 is negative");
+  expect(
+    parse("x")
+      .filter(positive)
+      .failed()
+      .map((error) => (error as Error).message)
+      .get(),
+  ).toEqual("x is not a number");
+
+  const typed = new Success<number, string>(-1);
+  expect(typed.filter(positive, (value) => `${value}`)).toEqual(
+    new Failure("-1"),
+  );
+  // @ts-expect-error The default error is not a string
+  typed.filter(positive);
+});
+
+test("Try failed and get", () => {
+  const error = new Error("failure");
+
+  expect(new Failure(error).failed()).toEqual(new Success(error));
+  expect(isFailure(new Success(1).failed())).toBeTruthy();
+  expect(new Success(1).get()).toEqual(1);
+  expect(() => new Failure(error).get()).toThrow(error);
+});
+
+test("Try transform and flatten", () => {
+  const onSuccess = (value: number): Try<string> => new Success(`${value}`);
+  const onFailure = (_error: unknown): Try<string> => new Success("failed");
+
+  expect(parse("1").transform(onSuccess, onFailure)).toEqual(new Success("1"));
+  expect(parse("x").transform(onSuccess, onFailure)).toEqual(
+    new Success("failed"),
+  );
+  expect(
+    isFailure(
+      parse("1").transform((): Try<string> => {
+        throw new Error("thrown");
+      }, onFailure),
+    ),
+  ).toBeTruthy();
+
+  expect(new Success(parse("1")).flatten()).toEqual(new Success(1));
+  expect(isFailure(new Success(parse("x")).flatten())).toBeTruthy();
+});
+
+test("Try conversions", () => {
+  const error = new Error("failure");
+
+  expect(new Success(1).toEither()).toEqual(Either.asRight(1));
+  expect(new Failure(error).toEither()).toEqual(Either.asLeft(error));
+  expect(new Success(1).toOption()).toEqual(Option.pure(1));
+  expect(isNone(new Failure(error).toOption())).toBeTruthy();
+});
+
+test("Try inspect", () => {
+  expect(util.inspect(new Success(1))).toEqual("Success(1)");
+  expect(util.inspect(new Failure(new Error("failure")))).toEqual(
+    "Failure(Error: failure)",
+  );
+});
@@ -0,0 +1,261 @@
+import {
+  EitherMonad,
+  EitherTraversable,
+  IOMonad,
+  LazyListFoldable,
+  ListMonad,
+  ListTraversable,
+  OptionMonad,
+  OptionTraversable,
+  StateMonad,
+  TryTraversable,
+  getMonad,
+  getValidationApplicative,
+  getValidationTraversable,
+  getWriterMonad,
+  getWriterTraversable,
+  sequenceOf,
+} from "../Instances";
+import {
+  ap,
+  flatten,
+  foldM,
+  foldMap,
+  liftA2,
+  replicateM,
+  sequence,
+  toArray,
+  unless,
+  when,
+} from "../Typeclass";
+import { KindOf } from "../HKT";
+import Option, { None, isNone } from "../Option";
+import Either from "../Either";
+import { Failure, Success } from "../Try";
+import IO from "../IO";
+import List from "../List";
+import LazyList from "../LazyList";
+import State from "../State";
+import Validation from "../Validation";
+import Writer from "../Writer";
+import { ListMonoid, SumMonoid } from "../Monoid";
+import { expect, test } from "@jest/globals";
+
+test("Typeclass registry names type constructors", () => {
+  const option: KindOf<"Option", number> = Option.pure(1);
+  const either: KindOf<"Either", number, string> = Either.asLeft("error");
+  expect(option).toEqual(Option.pure(1));
+  expect(either).toEqual(Either.asLeft("error"));
+
+  const options: Option<number[]> = sequenceOf("Option")([
+    Option.pure(1),
+    Option.pure(2),
+  ]);
+  expect(options).toEqual(Option.pure([1, 2]));
+  const io: IO<number> = getMonad("IO").of(1);
+  expect(io.runUnsafe()).toEqual(1);
+});
+
+test("Typeclass ap and liftA2 return the concrete type", () => {
+  const add = (a: number, b: number) => a + b;
+
+  const sum: Option<number> = liftA2(OptionMonad)(add)(
+    Option.pure(1),
+    Option.pure(2),
+  );
+  expect(sum).toEqual(Option.pure(3));
+  expect(
+    isNone(liftA2(OptionMonad)(add)(Option.pure(1), None.get())),
+  ).toBeTruthy();
+
+  const products: List<number> = liftA2(ListMonad)(
+    (a: number, b: number) => a * b,
+  )(List.of(1, 2), List.of(10, 100));
+  expect(products.toArray()).toEqual([10, 100, 20, 200]);
+
+  const left: Either<string, number> = ap(EitherMonad)(
+    Either.asRight<string, (x: number) => number>((x) => x + 1),
+    Either.asLeft<string, number>("error"),
+  );
+  expect(left).toEqual(Either.asLeft("error"));
+});
+
+test("Typeclass flatten", () => {
+  const option: Option<number> = flatten(OptionMonad)(
+    Option.pure(Option.pure(1)),
+  );
+  const list: List<number> = flatten(ListMonad)(
+    List.of(List.of(1, 2), List.of(3)),
+  );
+  const io: IO<number> = flatten(IOMonad)(IO.of(IO.of(1)));
+
+  expect(option).toEqual(Option.pure(1));
+  expect(list.toArray()).toEqual([1, 2, 3]);
+  expect(io.runUnsafe()).toEqual(1);
+});
+
+test("Typeclass when and unless", () => {
+  const effects: string[] = [];
+  const log = (message: string) =>
+    IO.from(() => {
+      effects.push(message);
+    });
+
+  const program: IO<void> = IOMonad.bind(
+    when(IOMonad)(true, log("when true")),
+    () =>
+      IOMonad.bind(when(IOMonad)(false, log("when false")), () =>
+        unless(IOMonad)(false, log("unless false")),
+      ),
+  );
+  program.runUnsafe();
+  expect(effects).toEqual(["when true", "unless false"]);
+
+  expect(when(OptionMonad)(false, None.get())).toEqual(Option.pure(undefined));
+  expect(isNone(when(OptionMonad)(true, None.get()))).toBeTruthy();
+});
+
+test("Typeclass foldM", () => {
+  const safeDivide = (acc: number, x: number): Option<number> =>
+    x === 0 ? None.get() : Option.pure(acc / x);
+
+  const result: Option<number> = foldM(OptionMonad)([2, 5], 100, safeDivide);
+  expect(result).toEqual(Option.pure(10));
+  expect(isNone(foldM(OptionMonad)([2, 0, 5], 100, safeDivide))).toBeTruthy();
+
+  const counter: State<number, number> = foldM(StateMonad)(
+    [1, 2, 3],
+    0,
+    (acc, x) => State.modify((s: number) => s + 1).map(() => acc + x),
+  );
+  expect(counter.run(0)).toEqual([6, 3]);
+});
+
+test("Typeclass sequence and replicateM", () => {
+  const options: Option<number[]> = sequence(OptionMonad)([
+    Option.pure(1),
+    Option.pure(2),
+  ]);
+  expect(options).toEqual(Option.pure([1, 2]));
+  expect(
+    isNone(sequence(OptionMonad)([Option.pure(1), None.get<number>()])),
+  ).toBeTruthy();
+
+  let count = 0;
+  const tick = IO.from(() => ++count);
+  const ticks: IO<number[]> = replicateM(IOMonad)(3, tick);
+  expect(ticks.runUnsafe()).toEqual([1, 2, 3]);
+  expect(ticks.runUnsafe()).toEqual([4, 5, 6]);
+
+  expect(replicateM(ListMonad)(2, List.of(0, 1)).toArray()).toEqual([
+    [0, 0],
+    [0, 1],
+    [1, 0],
+    [1, 1],
+  ]);
+
+  const many = replicateM(IOMonad)(10_000, IO.of(1));
+  expect(many.runUnsafe().length).toEqual(10_000);
+});
+
+test("Typeclass Validation applicative accumulates errors", () => {
+  const V = getValidationApplicative(ListMonoid<string>());
+  const result: Validation<string[], number[]> = sequence(V)([
+    Validation.valid<string[], number>(1),
+    Validation.invalid<string[], number>(["a"]),
+    Validation.invalid<string[], number>(["b"]),
+  ]);
+  expect(result).toEqual(Validation.invalid(["a", "b"]));
+});
+
+test("Typeclass Writer monad", () => {
+  const W = getWriterMonad(ListMonoid<string>());
+  const log = (message: string) =>
+    W.bind(W.of(undefined), () => W.of(message).tell([message]));
+
+  const [value, messages] = sequence(W)([log("a"), log("b")]).run();
+  expect(value).toEqual(["a", "b"]);
+  expect(messages).toEqual(["a", "b"]);
+});
+
+test("Typeclass Foldable", () => {
+  const sum = foldMap(ListTraversable)(SumMonoid);
+  expect(sum(List.of(1, 2, 3), (x) => x)).toEqual(6);
+  expect(
+    foldMap(OptionTraversable)(SumMonoid)(None.get<number>(), (x: number) => x),
+  ).toEqual(0);
+  expect(toArray(EitherTraversable)(Either.asRight(1))).toEqual([1]);
+  expect(toArray(EitherTraversable)(Either.asLeft("error"))).toEqual([]);
+  expect(toArray(TryTraversable)(new Success(1))).toEqual([1]);
+  expect(toArray(LazyListFoldable)(LazyList.range(0, 3))).toEqual([0, 1, 2]);
+});
+
+test("Typeclass Traversable", () => {
+  const parse = (text: string): Option<number> =>
+    isNaN(Number(text)) ? None.get() : Option.pure(Number(text));
+
+  const list: Option<List<number>> = ListTraversable.traverse(OptionMonad)(
+    List.of("1", "2"),
+    parse,
+  );
+  expect(list.map((values) => values.toArray())).toEqual(Option.pure([1, 2]));
+  expect(
+    isNone(ListTraversable.traverse(OptionMonad)(List.of("1", "x"), parse)),
+  ).toBeTruthy();
+
+  const either: Option<Either<string, number>> = EitherTraversable.traverse(
+    OptionMonad,
+  )(Either.asRight<string, string>("1"), parse);
+  expect(either).toEqual(Option.pure(Either.asRight(1)));
+  expect(
+    EitherTraversable.traverse(OptionMonad)(
+      Either.asLeft<string, string>("error"),
+      parse,
+    ),
+  ).toEqual(Option.pure(Either.asLeft("error")));
+
+  expect(
+    OptionTraversable.traverse(ListMonad)(Option.pure(2), (x) =>
+      List.of(x, x * 10),
+    ).toArray(),
+  ).toEqual([Option.pure(2), Option.pure(20)]);
+  expect(
+    TryTraversable.traverse(OptionMonad)(
+      new Failure<string, string>("error"),
+      parse,
+    ),
+  ).toEqual(Option.pure(new Failure("error")));
+});
+
+test("Typeclass Writer and Validation Traversable", () => {
+  const parse = (text: string): Option<number> =>
+    isNaN(Number(text)) ? None.get() : Option.pure(Number(text));
+
+  const W = getWriterTraversable<string[]>();
+  const writer = Writer.of("1", ListMonoid<string>()).tell(["read"]);
+  const parsed: Option<Writer<string[], number>> = W.traverse(OptionMonad)(
+    writer,
+    parse,
+  );
+  expect(parsed.map((value) => value.run())).toEqual(
+    Option.pure([1, ["read"]]),
+  );
+  expect(toArray(W)(writer)).toEqual(["1"]);
+
+  const V = getValidationTraversable<string[]>();
+  expect(
+    V.traverse(OptionMonad)(Validation.valid<string[], string>("1"), parse),
+  ).toEqual(Option.pure(Validation.valid(1)));
+  expect(
+    V.traverse(OptionMonad)(
+      Validation.invalid<string[], string>(["error"]),
+      parse,
+    ),
+  ).toEqual(Option.pure(Validation.invalid(["error"])));
+  expect(
+    foldMap(V)(SumMonoid)(Validation.valid<string[], number>(2), (x) => x),
+  ).toEqual(2);
+  expect(toArray(V)(Validation.invalid<string[], number>(["error"]))).toEqual(
+    [],
+  );
+});
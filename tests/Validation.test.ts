@@ -0,0 +1,154 @@
+import Validation, { isInvalid, isValid } from "../Validation";
+import Either, { isLeft, isRight } from "../Either";
+import { ListMonoid, StringConcatMonoid } from "../Monoid";
+import { expect, test } from "@jest/globals";
+
+const errors = ListMonoid<string>();
+
+const ThrowFailedBranchError = () => {
+  throw new Error("Failed Branch");
+};
+
+const validateName = (name: string): Validation<string[], string> =>
+  name.length > 0
+    ? Validation.valid(name)
+    : Validation.invalid(["name is empty"]);
+
+const validateAge = (age: number): Validation<string[], number> =>
+  age >= 0 ? Validation.valid(age) : Validation.invalid(["age is negative"]);
+
+test("Validation matching", () => {
+  expect(isValid(Validation.valid(1))).toBeTruthy();
+  expect(isInvalid(Validation.invalid("error"))).toBeTruthy();
+});
+
+test("Validation map and mapErrors", () => {
+  expect(
+    Validation.valid<string, number>(1)
+      .map((x) => x + 1)
+      .getOrElse(-1),
+  ).toEqual(2);
+
+  Validation.invalid<string, number>("error")
+    .mapErrors((error) => error.length)
+    .match({
+      ifInvalid: (length) => expect(length).toEqual(5),
+      ifValid: ThrowFailedBranchError,
+    });
+});
+
+test("Validation ap accumulates errors", () => {
+  const func = Validation.invalid<string, (x: number) => number>("a");
+  func.ap(Validation.invalid("b"), StringConcatMonoid).match({
+    ifInvalid: (error) => expect(error).toEqual("ab"),
+    ifValid: ThrowFailedBranchError,
+  });
+
+  const valid = Validation.valid<string, (x: number) => number>((x) => x * 2);
+  expect(
+    valid.ap(Validation.valid(21), StringConcatMonoid).getOrElse(-1),
+  ).toEqual(42);
+});
+
+test("Validation mapN", () => {
+  const person = Validation.map2(
+    errors,
+    validateName("Ada"),
+    validateAge(36),
+    (name, age) => ({ name, age }),
+  );
+  expect(person.getOrElse({ name: "", age: 0 })).toEqual({
+    name: "Ada",
+    age: 36,
+  });
+
+  Validation.map3(
+    errors,
+    validateName(""),
+    validateAge(-1),
+    validateAge(-2),
+    (name, age, other) => ({ name, age, other }),
+  ).match({
+    ifInvalid: (found) =>
+      expect(found).toEqual([
+        "name is empty",
+        "age is negative",
+        "age is negative",
+      ]),
+    ifValid: ThrowFailedBranchError,
+  });
+
+  const sum = Validation.mapN(
+    errors,
+    [validateAge(1), validateAge(2), validateAge(3), validateAge(4)],
+    (a, b, c, d) => a + b + c + d,
+  );
+  expect(sum.getOrElse(-1)).toEqual(10);
+});
+
+test("Validation sequence", () => {
+  expect(
+    Validation.sequence(errors, [validateAge(1), validateAge(2)]).getOrElse([]),
+  ).toEqual([1, 2]);
+
+  Validation.sequence(errors, [
+    validateAge(-1),
+    validateAge(2),
+    validateAge(-3),
+  ]).match({
+    ifInvalid: (found) =>
+      expect(found).toEqual(["age is negative", "age is negative"]),
+    ifValid: ThrowFailedBranchError,
+  });
+});
+
+test("Validation sequenceRecord", () => {
+  const valid = Validation.sequenceRecord(errors, {
+    name: validateName("Ada"),
+    age: validateAge(36),
+  });
+  expect(valid.getOrElse({ name: "", age: 0 })).toEqual({
+    name: "Ada",
+    age: 36,
+  });
+
+  Validation.sequenceRecord(errors, {
+    name: validateName(""),
+    age: validateAge(-1),
+  }).match({
+    ifInvalid: (found) =>
+      expect(found).toEqual(["name is empty", "age is negative"]),
+    ifValid: ThrowFailedBranchError,
+  });
+
+  // A computed "__proto__" key is an own field, as with JSON.parse
+  const fields = Validation.sequenceRecord(errors, {
+    ["__proto__"]: Validation.valid<string[], unknown>({ isAdmin: true }),
+    a: Validation.valid<string[], unknown>(1),
+  }).getOrElse({ ["__proto__"]: undefined, a: undefined });
+  expect(Object.getPrototypeOf(fields)).toBe(Object.prototype);
+  expect(Object.keys(fields)).toEqual(["__proto__", "a"]);
+  expect((fields as Record<string, unknown>).isAdmin).toBeUndefined();
+});
+
+test("Validation andThen", () => {
+  const positiveEven = (x: number) =>
+    validateAge(x).andThen((age) =>
+      age % 2 == 0
+        ? Validation.valid<string[], number>(age)
+        : Validation.invalid<string[], number>(["age is odd"]),
+    );
+
+  expect(positiveEven(4).getOrElse(-1)).toEqual(4);
+  positiveEven(-3).match({
+    ifInvalid: (found) => expect(found).toEqual(["age is negative"]),
+    ifValid: ThrowFailedBranchError,
+  });
+});
+
+test("Validation conversion to and from Either", () => {
+  expect(isRight(Validation.valid(1).toEither())).toBeTruthy();
+  expect(isLeft(Validation.invalid("error").toEither())).toBeTruthy();
+  expect(isValid(Validation.fromEither(Either.asRight(1)))).toBeTruthy();
+  expect(isInvalid(Validation.fromEither(Either.asLeft("error")))).toBeTruthy();
+});
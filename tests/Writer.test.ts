@@ -72,3 +72,64 @@ test("Writer Complex Example: Factorial", () => {
   expect(result.value).toEqual(acc);
   expect(result.log).toEqual(expectedLog);
 });
+
+test("Writer combines long logs lazily", () => {
+  let combines = 0;
+  const countingMonoid: Monoid<string[]> = {
+    pure: [],
+    combine: (x, y) => {
+      combines++;
+      return x.concat(y);
+    },
+  };
+
+  let writer = Writer.of(0, countingMonoid);
+  for (let i = 0; i < 10000; i++)
+    writer = writer.bind((value, make) => make(value + 1, [`step ${i}`]));
+
+  expect(combines).toEqual(0);
+  const [value, log] = writer.run();
+  expect(value).toEqual(10000);
+  expect(log.length).toEqual(10000);
+  expect(log[0]).toEqual("step 0");
+  expect(log[9999]).toEqual("step 9999");
+  expect(combines).toEqual(9999);
+
+  writer.run();
+  expect(combines).toEqual(9999);
+});
+
+test("Writer uses the monoid of the chain", () => {
+  const writer = Writer.of(1, StringConcatMonoid).bind((value) =>
+    Writer.of(value + 1, lastLogOnlyMonoid)
+      .tell("a")
+      .tell("b"),
+  );
+  expect(writer.run()).toEqual([2, "ab"]);
+});
+
+test("Writer listen and pass", () => {
+  const writer = Writer.of(1, ListMonoid<string>()).tell(["one"]);
+  expect(writer.listen().run()).toEqual([[1, ["one"]], ["one"]]);
+
+  const passed = writer
+    .map((value): [number, (log: string[]) => string[]] => [
+      value,
+      (log) => log.map((entry) => entry.toUpperCase()),
+    ])
+    .pass();
+  expect(passed.run()).toEqual([1, ["ONE"]]);
+});
+
+test("Writer censor and mapLog", () => {
+  const writer = Writer.of(1, ListMonoid<string>())
+    .tell(["password: hunter2", "logged in"])
+    .censor((log) => log.filter((entry) => !entry.startsWith("password")))
+    .tell(["done"]);
+  expect(writer.log).toEqual(["logged in", "done"]);
+
+  const joined = writer
+    .mapLog((log) => log.join(", "), StringConcatMonoid)
+    .tell("!");
+  expect(joined.run()).toEqual([1, "logged in, done!"]);
+});
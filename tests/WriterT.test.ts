@@ -0,0 +1,32 @@
+import WriterT from "../WriterT";
+import IO from "../IO";
+import { ListMonoid } from "../Monoid";
+import { IOKind, IOMonad } from "../Instances";
+import { expect, test } from "@jest/globals";
+
+const monoid = ListMonoid<string>();
+
+test("WriterT combines logs over IO", () => {
+  const effects: number[] = [];
+  const read = (value: number) =>
+    WriterT.lift<IOKind, string[], number>(
+      IOMonad,
+      monoid,
+      IO.from(() => {
+        effects.push(value);
+        return value;
+      }),
+    ).tell([`read ${value}`]);
+
+  const program = read(1)
+    .bind((a) => read(2).map((b) => a + b))
+    .bind((sum) => WriterT.tell(IOMonad, monoid, ["done"]).map(() => sum));
+
+  expect(effects).toEqual([]);
+  expect(program.run().runUnsafe()).toEqual([3, ["read 1", "read 2", "done"]]);
+  expect(effects).toEqual([1, 2]);
+});
+
+test("WriterT of has an empty log", () => {
+  expect(WriterT.of(IOMonad, monoid, 1).run().runUnsafe()).toEqual([1, []]);
+});